@@ -0,0 +1,76 @@
+/**
+ * Runs the framework-free modules against the recorded fixtures in
+ * public/fixtures, so a change that breaks them fails `npm test`.
+ */
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { countTransactionCategories } from '@/lib/txClassifier';
+import { scanWallet } from '@/lib/walletScanner';
+import { createFixtureProvider } from '@/lib/chainData/fixtureProvider';
+import type { ChainDataFixture } from '@/lib/chainData/fixtureProvider';
+import { createStaticPriceSource } from '@/lib/priceSource';
+import { createFixtureResolver } from '@/lib/domainResolver';
+import { setConsoleLogLevel } from '@/lib/logger';
+
+const FIXTURE_WALLET = '3csgG8S663ia7XaF7wk2KHHcQrjpRK476fmvnWFU17y5';
+
+const fixture = JSON.parse(
+  readFileSync(new URL('../public/fixtures/wallets.json', import.meta.url), 'utf-8')
+) as ChainDataFixture;
+
+// Scans log every step; only problems belong in the test output
+setConsoleLogLevel('warn');
+
+const checks: { name: string; run: () => void | Promise<void> }[] = [];
+const check = (name: string, run: () => void | Promise<void>) => checks.push({ name, run });
+
+check('classifies the recorded transactions', () => {
+  const counts = countTransactionCategories(fixture[FIXTURE_WALLET].transactions ?? [], FIXTURE_WALLET);
+  assert.deepEqual(counts, {
+    swap: 1,
+    nftBuy: 1,
+    nftSell: 0,
+    nftList: 0,
+    nftMint: 0,
+    stake: 0,
+    unstake: 0,
+    bridge: 0,
+    governanceVote: 0,
+    transfer: 1,
+    other: 0,
+  });
+});
+
+check('scans a recorded wallet end to end', async () => {
+  const provider = createFixtureProvider(fixture, { rpcEndpoint: 'http://127.0.0.1:8899' });
+  const result = await scanWallet(FIXTURE_WALLET, provider, { priceSource: createStaticPriceSource() });
+
+  assert.deepEqual(result.unavailableTraits, []);
+  assert.deepEqual(result.inputs.truncatedSources, []);
+  assert.equal(result.traits.txCount, 3);
+  assert.equal(result.traits.stakedSol, 3);
+  assert.equal(result.traits.isStaker, true);
+  assert.deepEqual(result.traits.defiProtocols.map((protocol) => protocol.id), ['kamino', 'jupiter']);
+  assert.equal(result.traits.isDeFiKing, true);
+  assert.equal(result.score, result.scoreBreakdown.total);
+  assert.equal(result.history[result.history.length - 1].time, result.scannedAt);
+});
+
+check('resolves .sol names through the fixture resolver', async () => {
+  const resolver = createFixtureResolver({ 'prism.sol': FIXTURE_WALLET });
+
+  assert.equal(await resolver.resolve('Prism.sol'), FIXTURE_WALLET);
+  assert.equal(await resolver.resolve('prism'), FIXTURE_WALLET);
+  assert.equal(await resolver.resolve('unregistered.sol'), null);
+  assert.equal(await resolver.reverseLookup(FIXTURE_WALLET), 'prism');
+});
+
+for (const { name, run } of checks) {
+  try {
+    await run();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    process.exitCode = 1;
+    console.error(`not ok - ${name}\n`, error);
+  }
+}
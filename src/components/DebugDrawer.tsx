@@ -0,0 +1,186 @@
+import { useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useLogEntries } from "@/hooks/useLogEntries";
+import type { LogEntry, LogNamespace } from "@/lib/logger";
+import type { DASAsset } from "@/lib/walletScanner";
+
+interface DebugDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Raw DAS items of the current scan. */
+  assets: DASAsset[];
+}
+
+const NAMESPACES: LogNamespace[] = ["scan", "das", "scoring", "mint", "render"];
+
+// A large wallet has tens of thousands of DAS items; render them a page at a time
+const ASSET_PAGE_SIZE = 100;
+
+const LEVEL_CLASSES: Record<LogEntry["level"], string> = {
+  debug: "text-white/40",
+  info: "text-cyan-300",
+  warn: "text-amber-300",
+  error: "text-red-400",
+};
+
+function formatTime(time: number) {
+  return new Date(time).toLocaleTimeString([], { hour12: false }) + `.${String(time % 1000).padStart(3, "0")}`;
+}
+
+function formatData(data: unknown) {
+  if (data instanceof Error) return `${data.name}: ${data.message}`;
+  try {
+    return JSON.stringify(data, null, 2);
+  } catch {
+    return String(data);
+  }
+}
+
+/** A collapsible row whose data is only stringified while it is open. */
+function DataDetails({ summary, data }: { summary: ReactNode; data: unknown }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <details onToggle={(event) => setOpen(event.currentTarget.open)}>
+      <summary className="cursor-pointer">{summary}</summary>
+      {open && (
+        <pre className="mt-1 max-h-64 overflow-auto rounded bg-white/5 p-2 text-[10px] text-white/70">
+          {formatData(data)}
+        </pre>
+      )}
+    </details>
+  );
+}
+
+function LogLine({ entry }: { entry: LogEntry }) {
+  const summary = (
+    <>
+      <span className="text-white/30">{formatTime(entry.time)}</span>{" "}
+      <span className={LEVEL_CLASSES[entry.level]}>{entry.level.toUpperCase()}</span>{" "}
+      <span className="text-white/50">[{entry.namespace}]</span> {entry.message}
+    </>
+  );
+  if (entry.data === undefined) return <li className="font-mono text-[11px] leading-5">{summary}</li>;
+  return (
+    <li className="font-mono text-[11px] leading-5">
+      <DataDetails summary={summary} data={entry.data} />
+    </li>
+  );
+}
+
+/** Support view of what the last scans did: log timeline, raw DAS items and scoring decisions. */
+export function DebugDrawer({ open, onOpenChange, assets }: DebugDrawerProps) {
+  const { entries, clear } = useLogEntries(open);
+  const [hidden, setHidden] = useState<Set<LogNamespace>>(new Set());
+  const [assetPage, setAssetPage] = useState(0);
+  const assetPageCount = Math.max(1, Math.ceil(assets.length / ASSET_PAGE_SIZE));
+  // A new scan can have fewer pages than the one being browsed
+  const currentAssetPage = Math.min(assetPage, assetPageCount - 1);
+  const pageAssets = assets.slice(currentAssetPage * ASSET_PAGE_SIZE, (currentAssetPage + 1) * ASSET_PAGE_SIZE);
+  const timeline = useMemo(() => entries.filter((entry) => !hidden.has(entry.namespace)).reverse(), [entries, hidden]);
+  const scoring = useMemo(() => entries.filter((entry) => entry.namespace === "scoring").reverse(), [entries]);
+
+  const toggleNamespace = (namespace: LogNamespace) =>
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(namespace)) next.delete(namespace);
+      else next.add(namespace);
+      return next;
+    });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl bg-black/95 border-white/10 text-white">
+        <SheetHeader>
+          <SheetTitle className="text-white">Debug console</SheetTitle>
+          <SheetDescription>
+            Newest first. Toggle with Ctrl+Shift+D. Entries are kept in memory only.
+          </SheetDescription>
+        </SheetHeader>
+        <Tabs defaultValue="timeline" className="mt-4">
+          <TabsList>
+            <TabsTrigger value="timeline">Timeline</TabsTrigger>
+            <TabsTrigger value="das">DAS items ({assets.length})</TabsTrigger>
+            <TabsTrigger value="scoring">Scoring</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="timeline">
+            <div className="mb-2 flex flex-wrap items-center gap-1">
+              {NAMESPACES.map((namespace) => (
+                <button
+                  key={namespace}
+                  type="button"
+                  onClick={() => toggleNamespace(namespace)}
+                  className={`rounded-full border border-white/10 px-2 py-0.5 text-[10px] uppercase ${hidden.has(namespace) ? "text-white/30" : "bg-white/10"}`}
+                >
+                  {namespace}
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={clear}
+                className="ml-auto text-[10px] uppercase text-white/40 hover:text-white/70"
+              >
+                Clear
+              </button>
+            </div>
+            <ScrollArea className="h-[70vh] pr-3">
+              <ul>{timeline.map((entry) => <LogLine key={entry.id} entry={entry} />)}</ul>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="das">
+            {assetPageCount > 1 && (
+              <div className="mb-2 flex items-center gap-2 text-[10px] uppercase text-white/50">
+                <button
+                  type="button"
+                  onClick={() => setAssetPage(currentAssetPage - 1)}
+                  disabled={currentAssetPage === 0}
+                  className="hover:text-white/80 disabled:opacity-30"
+                >
+                  Prev
+                </button>
+                <span>
+                  Page {currentAssetPage + 1} / {assetPageCount}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setAssetPage(currentAssetPage + 1)}
+                  disabled={currentAssetPage === assetPageCount - 1}
+                  className="hover:text-white/80 disabled:opacity-30"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+            <ScrollArea className="h-[70vh] pr-3">
+              <ul>
+                {pageAssets.map((asset) => (
+                  <li key={asset.id} className="font-mono text-[11px] leading-5">
+                    <DataDetails
+                      summary={
+                        <>
+                          {asset.content?.metadata?.name || "Unnamed"}{" "}
+                          <span className="text-white/40">{asset.interface} · {asset.id}</span>
+                        </>
+                      }
+                      data={asset}
+                    />
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="scoring">
+            <ScrollArea className="h-[75vh] pr-3">
+              <ul>{scoring.map((entry) => <LogLine key={entry.id} entry={entry} />)}</ul>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
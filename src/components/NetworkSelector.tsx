@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Globe } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useNetwork } from "@/hooks/useNetwork";
+import { NETWORK_CONFIG } from "@/constants";
+import { NETWORK_IDS, setNetwork } from "@/lib/network";
+import type { NetworkId } from "@/lib/network";
+
+/** Nav pill that switches between mainnet, devnet and a localnet/custom RPC. */
+export function NetworkSelector() {
+  const network = useNetwork();
+  const [open, setOpen] = useState(false);
+  const [customRpcUrl, setCustomRpcUrl] = useState(network.id === "localnet" ? network.rpcUrl : "");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) setError(null);
+  }, [open]);
+
+  const select = (id: NetworkId, rpcUrl?: string) => {
+    try {
+      setNetwork(id, rpcUrl);
+      setError(null);
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid RPC URL");
+    }
+  };
+
+  const isTestNetwork = network.id !== "mainnet-beta";
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center gap-1.5 px-3 py-1 mr-2 rounded-full border text-[10px] font-bold uppercase ${
+            isTestNetwork
+              ? "bg-amber-400/10 border-amber-400/40 text-amber-300"
+              : "bg-white/5 border-white/10 text-white/60 opacity-50 hover:opacity-100"
+          }`}
+          aria-label="Select network"
+        >
+          <Globe className="h-3 w-3" />
+          {network.label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 bg-black/90 border-white/10 text-white">
+        <div className="space-y-1">
+          {NETWORK_IDS.filter((id) => id !== "localnet").map((id) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => select(id)}
+              className={`w-full text-left px-2 py-1.5 rounded text-xs ${
+                network.id === id ? "bg-white/10 text-white" : "text-white/60 hover:bg-white/5"
+              }`}
+            >
+              {NETWORK_CONFIG.CLUSTERS[id].LABEL}
+            </button>
+          ))}
+        </div>
+        <form
+          className="mt-3 space-y-2 border-t border-white/10 pt-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            select("localnet", customRpcUrl.trim() || undefined);
+          }}
+        >
+          <label className="block text-[10px] font-bold uppercase text-white/40" htmlFor="custom-rpc-url">
+            {NETWORK_CONFIG.CLUSTERS.localnet.LABEL} / custom RPC
+          </label>
+          <div className="flex gap-2">
+            <Input
+              id="custom-rpc-url"
+              value={customRpcUrl}
+              onChange={(event) => setCustomRpcUrl(event.target.value)}
+              placeholder={NETWORK_CONFIG.CLUSTERS.localnet.RPC_URL}
+              className="h-8 text-xs bg-white/5 border-white/10"
+            />
+            <Button type="submit" size="sm" variant="secondary" className="h-8">
+              Use
+            </Button>
+          </div>
+          {error && <p className="text-[10px] text-red-400">{error}</p>}
+        </form>
+        {isTestNetwork && (
+          <p className="mt-3 text-[10px] text-white/40">
+            {network.treasuryAddress
+              ? `Mints on ${network.label} pay ${network.treasuryAddress.slice(0, 4)}…${network.treasuryAddress.slice(-4)} in test SOL.`
+              : `Minting is off on ${network.label}: no treasury is configured.`}
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { ChevronDown, HelpCircle } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { getCategoryPoints } from "@/lib/scoring";
+import type { ScoreBreakdown, ScoreItem } from "@/lib/scoring";
+
+function formatPoints(points: number) {
+  return Number.isInteger(points) ? String(points) : points.toFixed(1);
+}
+
+function formatInput(input: ScoreItem["input"]) {
+  if (input === null) return "n/a";
+  if (typeof input === "boolean") return input ? "yes" : "no";
+  return typeof input === "number" ? input.toLocaleString() : input;
+}
+
+/** "Why this score?": every scoring rule, the value it read and the points it gave, grouped by category. */
+export function ScoreBreakdownPanel({ breakdown }: { breakdown: ScoreBreakdown }) {
+  const [open, setOpen] = useState(false);
+  const categories = getCategoryPoints(breakdown);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="achievements-hud">
+      <CollapsibleTrigger className="ach-label score-breakdown-trigger">
+        <HelpCircle className="h-3 w-3 mr-1" /> WHY THIS SCORE?
+        <ChevronDown className={`h-3 w-3 ml-auto transition-transform ${open ? "rotate-180" : ""}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="score-breakdown">
+        {categories.map(({ category, points }) => (
+          <div key={category} className="score-breakdown-category">
+            <div className="score-breakdown-row score-breakdown-heading">
+              <span className="capitalize">{category}</span>
+              <span>{formatPoints(points)}</span>
+            </div>
+            {breakdown.items
+              .filter((item) => item.category === category)
+              .map((item) => (
+                <div
+                  key={item.rule}
+                  className={`score-breakdown-row ${item.awarded > 0 ? "" : "text-white/30"}`}
+                  title={`Input: ${formatInput(item.input)}`}
+                >
+                  <span>
+                    {item.rule}
+                    <span className="text-white/40"> · {formatInput(item.input)}</span>
+                    {item.capped && <span className="text-amber-300"> · capped</span>}
+                  </span>
+                  <span>
+                    {formatPoints(item.awarded)}
+                    <span className="text-white/40"> / {item.possible}</span>
+                  </span>
+                </div>
+              ))}
+          </div>
+        ))}
+        <div className="score-breakdown-row score-breakdown-heading">
+          <span>Total</span>
+          <span>
+            {breakdown.total}
+            <span className="text-white/40"> / {breakdown.max}</span>
+          </span>
+        </div>
+        {breakdown.capApplied && (
+          <span className="text-[10px] text-amber-300">
+            {breakdown.uncapped} points earned; the score is capped at {breakdown.max}.
+          </span>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
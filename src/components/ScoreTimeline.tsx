@@ -0,0 +1,97 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import type { ChartConfig } from "@/components/ui/chart";
+import { RARITY_THRESHOLDS } from "@/constants";
+import type { ScoreCheckpoint } from "@/lib/scoreHistory";
+import type { RarityTier } from "@/lib/walletScanner";
+
+// Same colours as the HUD's tier dots
+const TIER_COLORS: Record<RarityTier, string> = {
+  common: "#94a3b8",
+  rare: "#22d3ee",
+  epic: "#a855f7",
+  legendary: "#fbbf24",
+  mythic: "#f472b6",
+};
+
+const TIER_LINES: { tier: RarityTier; score: number }[] = [
+  { tier: "rare", score: RARITY_THRESHOLDS.RARE },
+  { tier: "epic", score: RARITY_THRESHOLDS.EPIC },
+  { tier: "legendary", score: RARITY_THRESHOLDS.LEGENDARY },
+  { tier: "mythic", score: RARITY_THRESHOLDS.MYTHIC },
+];
+
+const chartConfig = {
+  score: { label: "Activity score", color: "#22d3ee" },
+} satisfies ChartConfig;
+
+interface TimelinePoint extends ScoreCheckpoint {
+  label: string;
+}
+
+function formatMonth(time: number, isLatest: boolean) {
+  if (isLatest) return "Now";
+  return new Date(time).toLocaleDateString([], { month: "short", year: "2-digit", timeZone: "UTC" });
+}
+
+function TierDot({ cx, cy, payload }: { cx?: number; cy?: number; payload?: TimelinePoint }) {
+  if (cx === undefined || cy === undefined || !payload) return null;
+  const color = TIER_COLORS[payload.rarityTier];
+  return (
+    <circle
+      cx={cx}
+      cy={cy}
+      r={3.5}
+      fill={payload.partial ? "transparent" : color}
+      stroke={color}
+      strokeWidth={1.5}
+    />
+  );
+}
+
+/**
+ * Monthly activity score and rarity reconstructed from on-chain history.
+ * Hollow points are lower bounds: the scan did not reach back far enough to
+ * see all activity.
+ */
+export function ScoreTimeline({ history }: { history: ScoreCheckpoint[] }) {
+  const points: TimelinePoint[] = history.map((checkpoint, index) => ({
+    ...checkpoint,
+    label: formatMonth(checkpoint.time, index === history.length - 1),
+  }));
+  const maxScore = Math.max(...points.map((point) => point.score), RARITY_THRESHOLDS.RARE);
+  const visibleTiers = TIER_LINES.filter((line) => line.score <= maxScore * 1.1);
+
+  return (
+    <ChartContainer config={chartConfig} className="score-timeline aspect-auto h-32 w-full">
+      <LineChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+        <CartesianGrid vertical={false} strokeOpacity={0.08} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" fontSize={9} />
+        <YAxis tickLine={false} axisLine={false} fontSize={9} width={40} domain={[0, "auto"]} />
+        {visibleTiers.map((line) => (
+          <ReferenceLine key={line.tier} y={line.score} stroke={TIER_COLORS[line.tier]} strokeOpacity={0.35} strokeDasharray="3 3" />
+        ))}
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => {
+                const point = payload?.[0]?.payload as TimelinePoint | undefined;
+                if (!point) return null;
+                return `${point.label} · ${point.rarityTier.toUpperCase()}${point.partial ? " · at least" : ""}`;
+              }}
+            />
+          }
+        />
+        <Line
+          dataKey="score"
+          type="monotone"
+          stroke="var(--color-score)"
+          strokeWidth={2}
+          dot={<TierDot />}
+          activeDot={{ r: 5 }}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
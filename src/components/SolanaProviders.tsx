@@ -0,0 +1,23 @@
+import { useMemo } from "react";
+import type { ReactNode } from "react";
+import { ConnectionProvider, WalletProvider } from "@solana/wallet-adapter-react";
+import { WalletModalProvider } from "@solana/wallet-adapter-react-ui";
+import { useNetwork } from "@/hooks/useNetwork";
+import { getChainDataProvider } from "@/lib/chainData";
+
+// Use empty wallets array - Phantom auto-registers via Standard Wallet API
+const wallets = [];
+
+/** Wallet-adapter context on the selected network; picking another network reconnects. */
+export function SolanaProviders({ children }: { children: ReactNode }) {
+  const network = useNetwork();
+  const endpoint = useMemo(() => getChainDataProvider(network).rpcEndpoint, [network]);
+
+  return (
+    <ConnectionProvider endpoint={endpoint}>
+      <WalletProvider wallets={wallets} autoConnect>
+        <WalletModalProvider>{children}</WalletModalProvider>
+      </WalletProvider>
+    </ConnectionProvider>
+  );
+}
@@ -19,20 +19,27 @@ import {
   Vector2,
   BackSide
 } from 'three';
-import { useRef, useMemo, Suspense, useEffect, useState } from 'react';
+import { useRef, useMemo, Suspense, useEffect, useState, useId } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { Stars, OrbitControls } from '@react-three/drei';
+import { Stars, OrbitControls, Html } from '@react-three/drei';
 import { EffectComposer, Bloom, ChromaticAberration, Vignette, Noise } from '@react-three/postprocessing';
 import { BlendFunction } from 'postprocessing';
 import { VISUAL_CONFIG } from '@/constants';
 import { SeekerSun } from './SeekerSun';
-import type { PlanetData, MoonData, SolarSystemData, SpaceDustConfig, NebulaConfig } from '@/lib/solarSystemGenerator';
-import { generatePlanetTextures, generateCloudTexture, generateMoonTexture, generateSolarSystem } from '@/lib/solarSystemGenerator';
+import type { PlanetData, PlanetSource, MoonData, SolarSystemData, SpaceDustConfig, NebulaConfig } from '@/lib/solarSystemGenerator';
+import { generateSolarSystem } from '@/lib/solarSystemGenerator';
+import type { PlanetSurface, PlanetTextures } from '@/lib/solarSystemGenerator';
+import { loadPlanetTextures, loadTexture } from '@/lib/worker';
+import type { TextureKind } from '@/lib/proceduralTextures';
+import { createLogger } from '@/lib/logger';
+import type { CameraSync } from '@/lib/cameraSync';
 import { useWalletData } from '@/hooks/useWalletData';
 import type { WalletTraits } from '@/hooks/useWalletData';
 
 const PLANET_TEXTURE_SIZE = 256;
 
+const renderLog = createLogger('render');
+
 function createSeededRandom(seed: number) {
   return () => {
     seed |= 0;
@@ -43,12 +50,41 @@ function createSeededRandom(seed: number) {
   };
 }
 
-// Texture generation now centralized in solarSystemGenerator.ts
+// Textures are painted off the main thread; meshes render untextured until theirs arrive
+function useProceduralTexture(kind: TextureKind, seed: number): Texture | null {
+  const [texture, setTexture] = useState<Texture | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    setTexture(null);
+    loadTexture(kind, seed)
+      .then((loaded) => !cancelled && setTexture(loaded))
+      .catch((error) => renderLog.warn(`Texture generation failed for ${kind}`, error));
+    return () => { cancelled = true; };
+  }, [kind, seed]);
+  return texture;
+}
+
+function usePlanetTextures(surface: PlanetSurface, seed: number): PlanetTextures | null {
+  const [textures, setTextures] = useState<PlanetTextures | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    setTextures(null);
+    loadPlanetTextures(surface, seed)
+      .then((loaded) => !cancelled && setTextures(loaded))
+      .catch((error) => renderLog.warn(`Texture generation failed for ${surface}`, error));
+    return () => { cancelled = true; };
+  }, [surface, seed]);
+  return textures;
+}
 
 interface SolarSystemProps {
   traits: WalletTraits | null;
   walletAddress?: string;
   isWarping?: boolean;
+  /** Wallets of a linked identity; planets are attributed to them. */
+  walletSources?: PlanetSource[];
+  /** Shared with other viewports (the compare view) so they orbit together. */
+  cameraSync?: CameraSync;
 }
 
 function CinematicCamera({ isWarping, hasTraits }: { isWarping?: boolean; hasTraits: boolean }) {
@@ -129,6 +165,47 @@ function CinematicCamera({ isWarping, hasTraits }: { isWarping?: boolean; hasTra
   return null;
 }
 
+type SyncableControls = EventDispatcher & { target: Vector3; update(): void };
+
+function SyncedCamera({ sync }: { sync: CameraSync }) {
+  const id = useId();
+  const camera = useThree((state) => state.camera);
+  const controls = useThree((state) => state.controls) as unknown as SyncableControls | null;
+
+  useEffect(() => {
+    if (!controls) return;
+    let applying = false;
+    const onStart = () => {
+      if (!applying) sync.driver = id;
+    };
+    // Damping keeps firing changes after the drag ends; the driver publishes those too
+    const onChange = () => {
+      if (applying || sync.driver !== id) return;
+      sync.publish(id, { position: camera.position.toArray(), target: controls.target.toArray() });
+    };
+    const unsubscribe = sync.subscribe((pose, sourceId) => {
+      if (sourceId === id) return;
+      applying = true;
+      // Reads as user input to CinematicCamera, which then stops its fly-in
+      (controls as unknown as EventDispatcher<{ start: object }>).dispatchEvent({ type: 'start' });
+      camera.position.fromArray(pose.position);
+      controls.target.fromArray(pose.target);
+      controls.update();
+      applying = false;
+    });
+
+    controls.addEventListener('start', onStart);
+    controls.addEventListener('change', onChange);
+    return () => {
+      unsubscribe();
+      controls.removeEventListener('start', onStart);
+      controls.removeEventListener('change', onChange);
+    };
+  }, [camera, controls, id, sync]);
+
+  return null;
+}
+
 function OrbitPath({ radius, color }: { radius: number; color: string }) {
   return (
     <mesh rotation={[Math.PI / 2, 0, 0]}>
@@ -141,10 +218,7 @@ function OrbitPath({ radius, color }: { radius: number; color: string }) {
 function Moon({ moon }: { moon: MoonData }) {
   const ref = useRef<Mesh>(null);
   
-  const craterTexture = useMemo(() => {
-    const seed = parseInt(moon.id.replace(/\D/g, '')) || 12345;
-    return generateMoonTexture(seed);
-  }, [moon.id]);
+  const craterTexture = useProceduralTexture('moon', parseInt(moon.id.replace(/\D/g, '')) || 12345);
   
   useFrame((state) => {
     if (ref.current) {
@@ -160,6 +234,7 @@ function Moon({ moon }: { moon: MoonData }) {
     <mesh ref={ref}>
       <sphereGeometry args={[moon.size, 32, 32]} />
       <meshPhysicalMaterial 
+        key={craterTexture ? 'textured' : 'plain'}
         color="#8b8b8b" 
         map={craterTexture}
         bumpMap={craterTexture}
@@ -181,7 +256,7 @@ interface CloudLayerProps {
 function CloudLayer({ planetSize, seed }: CloudLayerProps) {
   const cloudRef = useRef<Mesh>(null);
   
-  const cloudTexture = useMemo(() => generateCloudTexture(seed), [seed]);
+  const cloudTexture = useProceduralTexture('cloud', seed);
   
   useFrame((state, delta) => {
     if (cloudRef.current) {
@@ -189,6 +264,8 @@ function CloudLayer({ planetSize, seed }: CloudLayerProps) {
     }
   });
   
+  if (!cloudTexture) return null;
+
   return (
     <mesh ref={cloudRef} scale={1.03}>
       <sphereGeometry args={[planetSize, 64, 64]} />
@@ -261,7 +338,8 @@ function Planet({ planet, orbitColor }: { planet: PlanetData; orbitColor: string
   const groupRef = useRef<Group>(null);
   const meshRef = useRef<Mesh>(null);
   const atmosphereRef = useRef<Mesh>(null);
-  const textures = useMemo(() => generatePlanetTextures(planet.surface, planet.materialSeed), [planet.id, planet.materialSeed]);
+  const [hovered, setHovered] = useState(false);
+  const textures = usePlanetTextures(planet.surface, planet.materialSeed);
   
   useFrame((state, delta) => {
     if (groupRef.current) {
@@ -285,13 +363,19 @@ function Planet({ planet, orbitColor }: { planet: PlanetData; orbitColor: string
       <OrbitPath radius={planet.orbitRadius} color={orbitColor} />
       <group ref={groupRef}>
         {/* Main Planet Body - MeshPhysicalMaterial for photorealistic rendering */}
-        <mesh ref={meshRef}>
+        <mesh
+          ref={meshRef}
+          onPointerOver={planet.sourceWallet ? () => setHovered(true) : undefined}
+          onPointerOut={planet.sourceWallet ? () => setHovered(false) : undefined}
+        >
           <sphereGeometry args={[planet.size, 128, 128]} />
           <meshPhysicalMaterial
+            // Maps change the shader, so the material is rebuilt once they arrive
+            key={textures ? 'textured' : 'plain'}
             color={planet.type.baseColor}
-            map={textures.map}
-            bumpMap={textures.bumpMap}
-            bumpScale={textures.bumpScale}
+            map={textures?.map ?? null}
+            bumpMap={textures?.bumpMap ?? null}
+            bumpScale={textures?.bumpScale ?? 0}
             roughness={planet.type.name === 'ice' ? 0.3 : 0.85}
             metalness={planet.type.name === 'ice' ? 0.1 : 0.15}
             clearcoat={planet.type.name === 'ice' ? 0.8 : 0.2}
@@ -325,6 +409,11 @@ function Planet({ planet, orbitColor }: { planet: PlanetData; orbitColor: string
 
         {planet.type.name === 'terrestrial' && <CloudLayer planetSize={planet.size} seed={planet.materialSeed} />}
         {planet.hasRing && <PlanetRing planetSize={planet.size} />}
+        {hovered && planet.sourceWallet && (
+          <Html center position={[0, planet.size + 0.4, 0]} className="planet-source-label">
+            {planet.sourceWallet.slice(0, 4)}…{planet.sourceWallet.slice(-4)}
+          </Html>
+        )}
         {planet.moons.map((m: MoonData) => (
           <Moon key={m.id} moon={m} />
         ))}
@@ -504,8 +593,11 @@ function Nebula({ config }: { config?: NebulaConfig }) {
   );
 }
 
-function SolarSystemScene({ traits, walletAddress, isWarping }: SolarSystemProps) {
-  const systemData = useMemo(() => traits ? generateSolarSystem(traits, walletAddress) : null, [traits, walletAddress]);
+function SolarSystemScene({ traits, walletAddress, isWarping, walletSources, cameraSync }: SolarSystemProps) {
+  const systemData = useMemo(
+    () => traits ? generateSolarSystem(traits, walletAddress, walletSources) : null,
+    [traits, walletAddress, walletSources]
+  );
   const [bloomFlash, setBloomFlash] = useState(0);
   const hasTraits = !!traits;
 
@@ -529,6 +621,7 @@ function SolarSystemScene({ traits, walletAddress, isWarping }: SolarSystemProps
           {systemData.planets.map((p: PlanetData) => <Planet key={p.id} planet={p} orbitColor={systemData.orbitColor} />)}
           <SpaceDust config={systemData.spaceDust} />
           <OrbitControls makeDefault enablePan={false} enableZoom={true} minDistance={8} maxDistance={120} dampingFactor={0.05} enableDamping />
+          {cameraSync && <SyncedCamera sync={cameraSync} />}
         </>
       )}
 
@@ -552,13 +645,19 @@ function SolarSystemScene({ traits, walletAddress, isWarping }: SolarSystemProps
   );
 }
 
-export function SolarSystem({ traits, walletAddress, isWarping }: SolarSystemProps) {
+export function SolarSystem({ traits, walletAddress, isWarping, walletSources, cameraSync }: SolarSystemProps) {
   const isConnected = walletAddress && walletAddress !== '0xDemo...Wallet';
   return (
     <div className="w-full h-full absolute inset-0 bg-black">
       <Canvas camera={{ position: [0, 0, 150], fov: 60, far: 2000 }} gl={{ antialias: true, toneMapping: ACESFilmicToneMapping }}>
         <Suspense fallback={null}>
-          <SolarSystemScene traits={traits} walletAddress={walletAddress} isWarping={isWarping} />
+          <SolarSystemScene
+            traits={traits}
+            walletAddress={walletAddress}
+            isWarping={isWarping}
+            walletSources={walletSources}
+            cameraSync={cameraSync}
+          />
           {!isConnected && !traits && !isWarping && (
             <>
               <ambientLight intensity={0.01} />
@@ -0,0 +1,67 @@
+import { ShieldAlert } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { SPAM_REASON_LABELS } from "@/lib/spamFilter";
+import type { ExcludedAsset } from "@/lib/spamFilter";
+
+interface SpamReviewDialogProps {
+  excludedAssets: ExcludedAsset[];
+}
+
+/** Lists the NFTs the spam filter kept out of the score, with the rules they tripped. */
+export function SpamReviewDialog({ excludedAssets }: SpamReviewDialogProps) {
+  if (excludedAssets.length === 0) return null;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button type="button" className="underline decoration-dotted hover:text-white/70">
+          {excludedAssets.length} spam hidden
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg bg-black/90 border-white/10 text-white">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-4 w-4 text-amber-400" /> Excluded as spam
+          </DialogTitle>
+          <DialogDescription>
+            These items do not count toward NFTs, moons or the identity score.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <ul className="space-y-2">
+            {excludedAssets.map((asset) => (
+              <li key={asset.id} className="flex gap-3 rounded-md border border-white/10 bg-white/5 p-2">
+                {asset.image ? (
+                  <img
+                    src={asset.image}
+                    alt=""
+                    loading="lazy"
+                    referrerPolicy="no-referrer"
+                    className="h-10 w-10 shrink-0 rounded object-cover opacity-60"
+                  />
+                ) : (
+                  <div className="h-10 w-10 shrink-0 rounded bg-white/10" />
+                )}
+                <div className="min-w-0">
+                  <p className="truncate text-sm">{asset.name || "Unnamed item"}</p>
+                  <p className="truncate font-mono text-[10px] text-white/40">{asset.id}</p>
+                  <p className="text-[10px] uppercase tracking-wider text-amber-300/80">
+                    {asset.reasons.map((reason) => SPAM_REASON_LABELS[reason]).join(" · ")}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
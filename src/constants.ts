@@ -1,12 +1,68 @@
 export const HELIUS_CONFIG = {
-  API_KEY: import.meta.env.VITE_HELIUS_API_KEY,
+  API_KEY: import.meta.env?.VITE_HELIUS_API_KEY,
   REST_URL: 'https://api.helius.xyz/v0',
-  RPC_URL: `https://mainnet.helius-rpc.com/?api-key=${import.meta.env.VITE_HELIUS_API_KEY}`,
+};
+
+// Chain data source: 'helius' | 'rpc' | 'fixture' (defaults to Helius when a key is set)
+export const CHAIN_DATA_CONFIG = {
+  PROVIDER: import.meta.env?.VITE_CHAIN_PROVIDER,
+  RPC_URL: import.meta.env?.VITE_RPC_URL || 'https://api.mainnet-beta.solana.com',
+  FIXTURE_URL: import.meta.env?.VITE_CHAIN_FIXTURE_URL || '/fixtures/wallets.json',
+};
+
+export const RPC_CONFIG = {
+  MAX_RETRIES: 5,
+  BASE_DELAY_MS: 400,
+  MAX_DELAY_MS: 8000,
+  MAX_CONCURRENT_REQUESTS: 4,
+};
+
+export const SCAN_CACHE_CONFIG = {
+  DB_NAME: 'identity-prism',
+  // Bump DB_VERSION whenever STORES changes so the upgrade creates the new store
+  DB_VERSION: 3,
+  STORES: ['scans', 'firstActivity', 'identities'],
+  TTL_MS: 2 * 60 * 60 * 1000, // re-score cached inputs without network for 2h
+};
+
+// Token prices: 'live' (Jupiter, falls back to static) | 'static'
+export const PRICE_CONFIG = {
+  SOURCE: import.meta.env?.VITE_PRICE_SOURCE || 'live',
+  API_URL: 'https://lite-api.jup.ag/price/v3',
+  MAX_IDS_PER_REQUEST: 50,
+  TTL_MS: 5 * 60 * 1000,
+};
+
+// Console logging: 'debug' | 'info' | 'warn' | 'error' | 'silent'. The debug drawer keeps every entry regardless.
+export const LOG_CONFIG = {
+  LEVEL: import.meta.env?.VITE_LOG_LEVEL || (import.meta.env?.PROD ? 'silent' : 'debug'),
+  BUFFER_SIZE: 1000,
+};
+
+// Linking extra wallets into one identity, each proven by a signed challenge
+export const IDENTITY_CONFIG = {
+  MAX_WALLETS: 5,
+  CHALLENGE_TTL_MS: 5 * 60 * 1000, // a signature over an older challenge is refused at link time
+};
+
+// Score timeline: months of monthly checkpoints reconstructed behind the current score
+export const SCORE_HISTORY_CONFIG = {
+  MONTHS: 12,
+};
+
+// Compare view: wallets scanned and rendered side by side
+export const COMPARE_CONFIG = {
+  MAX_WALLETS: 4,
+};
+
+export const SNS_CONFIG = {
+  NAME_PROGRAM_ID: 'namesLPneVptA9Z5rqUDD9tMTWEJwofgaYwp8cawRkX',
+  SOL_TLD_AUTHORITY: '58PwtjSDuFHuUkYjH9BYnnQKHfwo9reZhC2zMJv9JPkx',
+  PROXY_URL: 'https://sns-sdk-proxy.bonfida.workers.dev',
 };
 
 export const MINT_CONFIG = {
   PRICE_SOL: 0.01,
-  NETWORK: 'mainnet-beta',
   COLLECTION: 'Identity Prism',
 };
 
@@ -18,10 +74,13 @@ export const SCORING = {
   BLUE_CHIP_BONUS: 50,
   MEME_LORD_BONUS: 30,
   DEFI_KING_BONUS: 30,
+  DEFI_KING_MIN_PROTOCOLS: 2, // protocols used, unless an open position or LST already qualifies
   HYPERACTIVE_THRESHOLD_30D: 8, // tx/day
   DIAMOND_HANDS_DAYS: 60,
   DIAMOND_HANDS_BONUS: 50,
   HYPERACTIVE_BONUS: 50,
+  STAKER_MIN_SOL: 1, // delegated, deactivating stake excluded
+  STAKER_BONUS: 40,
 
   SOL_BALANCE_THRESHOLDS: {
     MINOR: { amount: 0.1, bonus: 15 },
@@ -29,6 +88,16 @@ export const SCORING = {
     LEGEND: { amount: 5, bonus: 75 },
   },
 
+  // Balance bonus basis: 'portfolio' scores total USD value, falling back to
+  // SOL_BALANCE_THRESHOLDS when prices are unavailable; 'sol' always uses SOL
+  BALANCE_MODEL: 'portfolio' as 'portfolio' | 'sol',
+  // Roughly the SOL thresholds at $150/SOL
+  PORTFOLIO_USD_THRESHOLDS: {
+    MINOR: { usd: 15, bonus: 15 },
+    MAJOR: { usd: 150, bonus: 35 },
+    LEGEND: { usd: 750, bonus: 75 },
+  },
+
   WALLET_AGE_PER_YEAR: 50,
   WALLET_AGE_MAX: 150,
 
@@ -55,6 +124,32 @@ export const TOKEN_ADDRESSES = {
   CHAPTER2_PREORDER: '2DMMamkkxQ6zDMBtkFp8KH7FoWzBMBA1CGTYwom4QH6Z',
 } as const;
 
+export const TOKEN_PROGRAM_IDS = {
+  spl: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  token2022: 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+} as const;
+
+// Programs whose invocation identifies what a transaction did (see txClassifier)
+export const TRANSACTION_PROGRAM_IDS = {
+  SYSTEM: '11111111111111111111111111111111',
+  STAKE: 'Stake11111111111111111111111111111111111111',
+  SWAP: [
+    'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4', // Jupiter v6
+    'JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB', // Jupiter v4
+    'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc', // Orca Whirlpools
+    '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8', // Raydium AMM v4
+    'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK', // Raydium CLMM
+  ],
+  BRIDGE: [
+    'worm2ZoG2kUd4vFXhvjh93UUH596ayRfgQ2MgjNMTth', // Wormhole core
+    'wormDTUJ6AWPNvk59vGQbDvGJmqbDTdgWgAqcLBCgUb', // Wormhole token bridge
+    'src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4', // deBridge DLN source
+  ],
+  GOVERNANCE: [
+    'GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw', // SPL Governance (Realms)
+  ],
+} as const;
+
 export const MEME_COIN_MINTS = {
   BONK: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
   WIF: 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm',
@@ -62,41 +157,166 @@ export const MEME_COIN_MINTS = {
   MEW: 'MEW1VNoNHn99uH86fUvYvU42o9YkS9uH9Tst6t2291',
 } as const;
 
+// Wrapped SOL; native SOL is priced under this mint
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export const STABLECOIN_MINTS = {
+  USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  USDT: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+} as const;
+
 export const LST_MINTS = {
   JITOSOL: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn',
   MSOL: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',
   BSOL: 'BSo13v7qDMGWCM1cW8wwfsfZ7vQLZKxHCiNSN2B7Mq2u',
 } as const;
 
-export const DEFI_POSITION_HINTS = ['kamino', 'drift', 'marginfi', 'mango', 'jito', 'solend', 'zeta'];
-
-export const BLUE_CHIP_COLLECTIONS = [
-  'J1S9H3QjnRtBbbuD4HjPV6RpRhwuk4zKbxsnCHuTgh9w', // Mad Lads
-  'SMBH3wF6pdt967Y62N7S5mB4tJSTH3KAsdJ82D3L2nd', // SMB Gen2
-  'SMB3ndYpSXY97H8MhpxYit3pD8TzYJ5v6ndP4D2L2nd', // SMB Gen3
-  '6v9UWGmEB5Hthst9KqEAgXW6XF6R6yv4t7Yf3YfD3A7t', // Claynosaurz
-  'BUjZjAS2vbbb9p56fAun4sFmPAt8W6JURG5L3AkVvHP9', // Famous Fox Federation
-  '4S8L8L1M5E1X5vM1Y1M1X5vM1Y1M1X5vM1Y1M1X5vM1Y', // Tensorians
-  '7TENEKwBnkpENuefriGPg4hBDR4WJ2Gyfw5AhdkMA4rq', // Okay Bears
-  '9uBX3ASuCtv6S5o56yq7F9n7U6o9o7o9o7o9o7o9o7o9', // Degen Ape Academy
-  'GGSGP689TGoX6WJ9mSj2S8mH78S8S8S8S8S8S8S8S8S8S', // Galactic Geckos
-  'CDgbhX61QFADQAeeYKP5BQ7nnzDyMkkR3NEhYF2ETn1k', // Taiyo Robotics
-  'Port7uDYB3P8meS5m7Yv62222222222222222222222', // Portals
-  'CocMmG5v88888888888888888888888888888888888', // Cets on Creck
-  'y00t9S9mD9mD9mD9mD9mD9mD9mD9mD9mD9mD9mD9mD', // y00ts
-  'abc777777777777777777777777777777777777777', // ABC
-  'LILY5555555555555555555555555555555555555', // LILY
-  'PRM77777777777777777777777777777777777777', // Primates
-  'Jelly8888888888888888888888888888888888888', // Jelly Rascals
-  '4Q2C5S930M9c9e96b', // Froganas (prefix match suggested)
-  'TFF77777777777777777777777777777777777777', // TFF
-  'DTP77777777777777777777777777777777777777', // DTP
+// DeFi protocols detected from invoked programs and owned position accounts.
+// `positions` locates accounts whose authority field holds the wallet address.
+export const DEFI_PROTOCOLS: {
+  id: string;
+  name: string;
+  programIds: string[];
+  positions?: { programId: string; authorityOffset: number };
+}[] = [
+  {
+    id: 'kamino',
+    name: 'Kamino',
+    programIds: ['KLend2g3cP87fffoy8q1mQqGKjrxjC8boSyAYavgmjD', '6LtLpnUFNByNXLyCoK9wA2MykKAmQNZKBdY8s47dehDc'],
+    positions: { programId: 'KLend2g3cP87fffoy8q1mQqGKjrxjC8boSyAYavgmjD', authorityOffset: 64 }, // Obligation.owner
+  },
+  {
+    id: 'drift',
+    name: 'Drift',
+    programIds: ['dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH'],
+    positions: { programId: 'dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH', authorityOffset: 8 }, // User.authority
+  },
+  {
+    id: 'marginfi',
+    name: 'marginfi',
+    programIds: ['MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FZnsebVacA'],
+    positions: { programId: 'MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FZnsebVacA', authorityOffset: 40 }, // MarginfiAccount.authority
+  },
+  {
+    id: 'solend',
+    name: 'Solend',
+    programIds: ['So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo'],
+    positions: { programId: 'So1endDq2YkqhipRh3WViPa8hdiSpxWy6z3Z6tMCpAo', authorityOffset: 42 }, // Obligation.owner
+  },
+  {
+    id: 'jupiter',
+    name: 'Jupiter',
+    programIds: [
+      'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4',
+      'JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB',
+      'PERPHjGBqRHArX4DySjwM6UJHiR3sWAatqfdBS2qQJu', // Perps
+    ],
+  },
+  { id: 'orca', name: 'Orca', programIds: ['whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc'] },
+  {
+    id: 'raydium',
+    name: 'Raydium',
+    programIds: [
+      '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
+      'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK',
+      'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C',
+    ],
+  },
+  { id: 'meteora', name: 'Meteora', programIds: ['LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo'] },
+  { id: 'zeta', name: 'Zeta', programIds: ['ZETAxsqBRek56DhiGXrn75yj2NHU3aYUnxvHXpkf3aD'] },
+  { id: 'mango', name: 'Mango', programIds: ['4MangoMjqJ2firMokCjjGgoK8d4MXcrgL7XJaL3w6fVg'] },
+  { id: 'marinade', name: 'Marinade', programIds: ['MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD'] },
+];
+
+export type BlueChipTier = 'S' | 'A' | 'B';
+
+export interface BlueChipCollectionConfig {
+  /** Verified collection mint, matched against the DAS `collection` grouping. */
+  mint: string;
+  name: string;
+  tier: BlueChipTier;
+  /**
+   * Extra rule for items minted before the collection was verified on-chain:
+   * one of `creators` must be a verified creator, and the name must start with
+   * `namePrefix` when one is given.
+   */
+  match?: { creators: string[]; namePrefix?: string };
+}
+
+// Share of SCORING.BLUE_CHIP_BONUS a collection of each tier is worth
+export const BLUE_CHIP_TIER_WEIGHTS: Record<BlueChipTier, number> = { S: 1, A: 0.75, B: 0.5 };
+
+// Checked at load time by src/lib/collectionRegistry.ts
+export const BLUE_CHIP_COLLECTIONS: BlueChipCollectionConfig[] = [
+  { mint: 'J1S9H3QjnRtBbbuD4HjPV6RpRhwuk4zKbxsnCHuTgh9w', name: 'Mad Lads', tier: 'S' },
+  { mint: 'SMBtHCCC6RYRutFEPb4gZqeBLUZbMNhRKaMKZZLHi7W', name: 'SMB Gen2', tier: 'S' },
+  { mint: '8Rt3Ayqth4DAiPnW9MDFi63TiQJHmohfTWLMQFHi4KZH', name: 'SMB Gen3', tier: 'A' },
+  { mint: '6mszaj17KSfVqADrQj3o4W3zoLMTykgmV37W4QadCczK', name: 'Claynosaurz', tier: 'A' },
+  { mint: 'BUjZjAS2vbbb65g7Z1Ca9ZRVYoJscURG5L3AkVvHP9ac', name: 'Famous Fox Federation', tier: 'A' },
+  { mint: '6XxjKYFbcndh2gDcsUrmZgVEsoDxXMnfsaGY6fpTJzNr', name: 'DeGods', tier: 'A' },
+  { mint: '5PA96eCFHJSFPY9SWFeRJUHrpoNF5XZL6RrE1JADXhxf', name: 'Tensorians', tier: 'B' },
+  { mint: '3saAedkM9o5g1u5DCqsuMZuC4GRqPB4TuMkvSsSVvGQ3', name: 'Okay Bears', tier: 'B' },
+  { mint: '4mKSoDDqApmF1DqXvVTSL6tu2zixrSSNjqMxUnwvVzy2', name: 'y00ts', tier: 'B' },
 ];
 
-export const BLUE_CHIP_COLLECTION_NAMES = ['mad lads', 'solana monkey business', 'claynosaurz'];
+// Spam/scam NFT filtering (see src/lib/spamFilter.ts)
+export const SPAM_CONFIG = {
+  // Creators known to mass-mint scam airdrops; their items are always spam
+  CREATORS: [] as string[],
+  // Lure phrasing in an NFT's name, symbol or description: a claim/redeem word
+  // close to a link or domain, either way round, or to a prize amount
+  PHISHING_PATTERNS: [
+    /\b(claim|redeem|voucher|airdrop)\b[^.!?\n]{0,80}(https?:\/\/|\bwww\.|\b[a-z0-9-]+\.(com|io|xyz|net|org|app|site|online|fun|gift|claims?|pro|top)\b)/i,
+    /(https?:\/\/|\bwww\.|\b[a-z0-9-]+\.(com|io|xyz|net|org|app|site|online|fun|gift|claims?|pro|top)\b)[^\n]{0,80}\b(claim|redeem|voucher)\b/i,
+    /\b(claim|redeem)\b[^.!?\n]{0,40}\$\s?\d/i,
+  ],
+  // This many compressed items from one unregistered collection or creator reads as a mass airdrop
+  MASS_AIRDROP_MIN_ITEMS: 25,
+};
 
 export const TREASURY_ADDRESS = 'M1nTPcUB7bYp7uC3KxA9HtxFqouBZfyqCkCmDYJLdnU';
 
+// Seeker and Chapter 2 items only exist on mainnet
+const NO_TOKEN_ADDRESSES = {
+  SEEKER_GENESIS_COLLECTION: null,
+  SEEKER_MINT_AUTHORITY: null,
+  CHAPTER2_PREORDER: null,
+} as const;
+
+// Solana clusters the app can scan and mint on; the selection is kept in localStorage
+export const NETWORK_CONFIG = {
+  DEFAULT: import.meta.env?.VITE_SOLANA_NETWORK || 'mainnet-beta',
+  STORAGE_KEY: 'identity-prism:network',
+  CLUSTERS: {
+    'mainnet-beta': {
+      LABEL: 'Mainnet',
+      RPC_URL: CHAIN_DATA_CONFIG.RPC_URL,
+      HELIUS_RPC_URL: 'https://mainnet.helius-rpc.com',
+      HELIUS_REST_URL: HELIUS_CONFIG.REST_URL,
+      TREASURY_ADDRESS,
+      TOKEN_ADDRESSES,
+    },
+    devnet: {
+      LABEL: 'Devnet',
+      RPC_URL: import.meta.env?.VITE_DEVNET_RPC_URL || 'https://api.devnet.solana.com',
+      HELIUS_RPC_URL: 'https://devnet.helius-rpc.com',
+      HELIUS_REST_URL: 'https://api-devnet.helius.xyz/v0',
+      // No fallback: test mints must never pay the mainnet treasury
+      TREASURY_ADDRESS: import.meta.env?.VITE_DEVNET_TREASURY_ADDRESS || null,
+      TOKEN_ADDRESSES: NO_TOKEN_ADDRESSES,
+    },
+    // A local validator, or any other RPC URL entered in the network selector
+    localnet: {
+      LABEL: 'Localnet',
+      RPC_URL: import.meta.env?.VITE_LOCALNET_RPC_URL || 'http://127.0.0.1:8899',
+      HELIUS_RPC_URL: null,
+      HELIUS_REST_URL: null,
+      TREASURY_ADDRESS: import.meta.env?.VITE_LOCALNET_TREASURY_ADDRESS || null,
+      TOKEN_ADDRESSES: NO_TOKEN_ADDRESSES,
+    },
+  },
+} as const;
+
 // Visual Configuration
 export const VISUAL_CONFIG = {
   // Sun configurations
@@ -191,9 +411,19 @@ export const PLANET_TYPES = [
   { name: 'ice', baseColor: '#bae6fd', accent: '#ffffff', surface: 'ice', roughness: 0.2, metalness: 0.5, emissiveIntensity: 0.3 },
 ] as const;
 
-export const MEME_COIN_PRICES_USD: Record<keyof typeof MEME_COIN_MINTS, number> = {
-  BONK: 0.000002,
-  WIF: 3.5,
-  POPCAT: 0.35,
-  MEW: 0.003,
+// Last-resort USD prices by mint, used when live pricing is off or unreachable
+export const STATIC_TOKEN_PRICES = {
+  AS_OF: '2024-06-01T00:00:00Z',
+  USD: {
+    [SOL_MINT]: 150,
+    [STABLECOIN_MINTS.USDC]: 1,
+    [STABLECOIN_MINTS.USDT]: 1,
+    [LST_MINTS.JITOSOL]: 170,
+    [LST_MINTS.MSOL]: 180,
+    [LST_MINTS.BSOL]: 170,
+    [MEME_COIN_MINTS.BONK]: 0.000002,
+    [MEME_COIN_MINTS.WIF]: 3.5,
+    [MEME_COIN_MINTS.POPCAT]: 0.35,
+    [MEME_COIN_MINTS.MEW]: 0.003,
+  } as Record<string, number>,
 };
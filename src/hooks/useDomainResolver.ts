@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { createSnsResolver } from "@/lib/domainResolver";
+import type { DomainResolver } from "@/lib/domainResolver";
+import { useNetwork } from "@/hooks/useNetwork";
+import { createLogger } from "@/lib/logger";
+
+const scanLog = createLogger("scan");
+
+export function useDomainResolver(): DomainResolver {
+  const { connection } = useConnection();
+  const network = useNetwork();
+  return useMemo(() => createSnsResolver(connection, network.id), [connection, network.id]);
+}
+
+/** Primary `.sol` name for `address` (without the suffix), or null while unknown. */
+export function usePrimaryDomain(address?: string, resolver?: DomainResolver) {
+  const defaultResolver = useDomainResolver();
+  const activeResolver = resolver ?? defaultResolver;
+  const [domain, setDomain] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDomain(null);
+    if (!address) return;
+
+    let cancelled = false;
+    activeResolver
+      .reverseLookup(address)
+      .then((name) => !cancelled && setDomain(name))
+      .catch((error) => scanLog.warn("Primary domain lookup failed", error));
+    return () => { cancelled = true; };
+  }, [address, activeResolver]);
+
+  return domain;
+}
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import {
+  createLinkedIdentity,
+  loadLinkedIdentity,
+  saveLinkedIdentity,
+  withOwnershipProof,
+  withoutWallet,
+} from "@/lib/linkedIdentity";
+import type { LinkedIdentity } from "@/lib/linkedIdentity";
+import { requestOwnershipProof, verifyFreshOwnershipProof } from "@/lib/ownershipProof";
+import { createLogger } from "@/lib/logger";
+
+const scanLog = createLogger("scan");
+
+export interface LinkedIdentityState {
+  identity: LinkedIdentity | null;
+  /** Proven wallets, in the order they were linked. */
+  linkedAddresses: string[];
+  isLinking: boolean;
+  /** Signs a challenge with the connected wallet and adds it to the identity. */
+  linkConnectedWallet: () => Promise<void>;
+  unlinkWallet: (address: string) => Promise<void>;
+}
+
+/**
+ * The identity linked on this device. To link another wallet, switch the
+ * wallet adapter to it and call `linkConnectedWallet` again.
+ */
+export function useLinkedIdentity(): LinkedIdentityState {
+  const { publicKey, signMessage } = useWallet();
+  const [identity, setIdentity] = useState<LinkedIdentity | null>(null);
+  const [isLinking, setIsLinking] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLinkedIdentity().then((loaded) => !cancelled && setIdentity(loaded));
+    return () => { cancelled = true; };
+  }, []);
+
+  const persist = useCallback(async (next: LinkedIdentity) => {
+    setIdentity(next);
+    try {
+      await saveLinkedIdentity(next);
+    } catch (error) {
+      scanLog.warn("Linked identity write failed", error);
+    }
+  }, []);
+
+  const linkConnectedWallet = useCallback(async () => {
+    if (!publicKey) throw new Error("Connect the wallet you want to link");
+    setIsLinking(true);
+    try {
+      const current = identity ?? createLinkedIdentity();
+      const proof = await requestOwnershipProof(publicKey.toBase58(), current.id, signMessage);
+      if (!(await verifyFreshOwnershipProof(proof))) {
+        throw new Error("The wallet's signature did not verify");
+      }
+      await persist(withOwnershipProof(current, proof));
+    } finally {
+      setIsLinking(false);
+    }
+  }, [identity, persist, publicKey, signMessage]);
+
+  const unlinkWallet = useCallback(async (address: string) => {
+    if (identity) await persist(withoutWallet(identity, address));
+  }, [identity, persist]);
+
+  return {
+    identity,
+    linkedAddresses: identity?.wallets.map((proof) => proof.address) ?? [],
+    isLinking,
+    linkConnectedWallet,
+    unlinkWallet,
+  };
+}
@@ -0,0 +1,21 @@
+import { useCallback, useEffect, useState } from "react";
+import { clearLogEntries, getLogEntries, subscribeToLogs } from "@/lib/logger";
+import type { LogEntry } from "@/lib/logger";
+
+/** The buffered log, kept live while `enabled`; subscribing costs a re-render per entry. */
+export function useLogEntries(enabled = true) {
+  const [entries, setEntries] = useState<LogEntry[]>(() => (enabled ? getLogEntries() : []));
+
+  useEffect(() => {
+    if (!enabled) return;
+    setEntries(getLogEntries());
+    return subscribeToLogs(() => setEntries(getLogEntries()));
+  }, [enabled]);
+
+  const clear = useCallback(() => {
+    clearLogEntries();
+    setEntries([]);
+  }, []);
+
+  return { entries, clear };
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+import { getNetwork, subscribeToNetwork } from "@/lib/network";
+import type { SolanaNetwork } from "@/lib/network";
+
+/** The selected network; re-renders when `setNetwork` picks another. */
+export function useNetwork(): SolanaNetwork {
+  return useSyncExternalStore(subscribeToNetwork, getNetwork);
+}
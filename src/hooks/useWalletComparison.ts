@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { scanWalletCached } from "@/lib/scanCache";
+import type { CachedScanResult } from "@/lib/scanCache";
+import { getChainDataProvider } from "@/lib/chainData";
+import type { ChainDataProvider } from "@/lib/chainData";
+import { createLogger } from "@/lib/logger";
+
+export interface ComparedWallet {
+  address: string;
+  result: CachedScanResult | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const scanLog = createLogger("scan");
+
+/**
+ * Scans each of `addresses` through the scan cache, one after another so they
+ * do not compete for rate limits. Each entry fills in as its scan finishes.
+ */
+export function useWalletComparison(addresses: string[], provider: ChainDataProvider = getChainDataProvider()) {
+  const [wallets, setWallets] = useState<ComparedWallet[]>([]);
+  // Joined so a new array with the same wallets does not restart the scans
+  const addressKey = addresses.join(",");
+
+  useEffect(() => {
+    const list = addressKey ? addressKey.split(",") : [];
+    setWallets(list.map((address) => ({ address, result: null, isLoading: true, error: null })));
+
+    let cancelled = false;
+    const update = (index: number, patch: Partial<ComparedWallet>) =>
+      setWallets((prev) => prev.map((wallet, i) => (i === index ? { ...wallet, ...patch } : wallet)));
+
+    const scanAll = async () => {
+      for (const [index, address] of list.entries()) {
+        try {
+          const result = await scanWalletCached(address, provider);
+          if (cancelled) return;
+          update(index, { result, isLoading: false });
+        } catch (error) {
+          scanLog.error(`Compare scan failed for ${address}`, error);
+          if (cancelled) return;
+          update(index, { isLoading: false, error: "Cosmic synchronization failed." });
+        }
+      }
+    };
+
+    scanAll();
+    return () => { cancelled = true; };
+  }, [addressKey, provider]);
+
+  return wallets;
+}
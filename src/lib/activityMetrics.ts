@@ -0,0 +1,77 @@
+import type { ConfirmedSignatureInfo } from '@solana/web3.js';
+
+/** Transaction activity over rolling windows ending at scan time. */
+export interface ActivityMetrics {
+  txCount7d: number;
+  txCount30d: number;
+  txCount90d: number;
+  /** Distinct UTC days with at least one transaction in the last 30 days. */
+  activeDays30d: number;
+  /** Longest run of consecutive active UTC days in the fetched history. */
+  longestStreakDays: number;
+  /** Unix milliseconds of the newest transaction, null for a wallet without history. */
+  lastActivityAt: number | null;
+  /**
+   * True when the signature window ends inside the 90-day window, so the
+   * counts above are lower bounds rather than exact figures.
+   */
+  saturated: boolean;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export function emptyActivityMetrics(): ActivityMetrics {
+  return {
+    txCount7d: 0,
+    txCount30d: 0,
+    txCount90d: 0,
+    activeDays30d: 0,
+    longestStreakDays: 0,
+    lastActivityAt: null,
+    saturated: false,
+  };
+}
+
+/**
+ * Windowed activity from signature `blockTime`s (newest first, as the RPC
+ * returns them). Signatures without a block time are skipped. `windowFull`
+ * says whether the list was cut off by the scan's page cap.
+ */
+export function computeActivityMetrics(
+  signatures: ConfirmedSignatureInfo[],
+  now: number = Date.now(),
+  windowFull = false
+): ActivityMetrics {
+  const metrics = emptyActivityMetrics();
+  const activeDays = new Set<number>();
+  const today = Math.floor(now / DAY_MS);
+  let oldestTime: number | null = null;
+
+  signatures.forEach(({ blockTime }) => {
+    if (!blockTime) return;
+    const time = blockTime * 1000;
+    const age = now - time;
+    if (age <= 7 * DAY_MS) metrics.txCount7d++;
+    if (age <= 30 * DAY_MS) metrics.txCount30d++;
+    if (age <= 90 * DAY_MS) metrics.txCount90d++;
+    if (metrics.lastActivityAt === null || time > metrics.lastActivityAt) metrics.lastActivityAt = time;
+    if (oldestTime === null || time < oldestTime) oldestTime = time;
+    activeDays.add(Math.floor(time / DAY_MS));
+  });
+
+  const sortedDays = Array.from(activeDays).sort((a, b) => a - b);
+  let streak = 0;
+  sortedDays.forEach((day, i) => {
+    streak = i > 0 && day === sortedDays[i - 1] + 1 ? streak + 1 : 1;
+    metrics.longestStreakDays = Math.max(metrics.longestStreakDays, streak);
+    if (today - day < 30) metrics.activeDays30d++;
+  });
+
+  metrics.saturated = windowFull && oldestTime !== null && now - oldestTime < 90 * DAY_MS;
+  return metrics;
+}
+
+/** Whole days since `lastActivityAt`, or null when there is none. */
+export function daysSince(lastActivityAt: number | null, now: number = Date.now()): number | null {
+  return lastActivityAt === null ? null : Math.max(0, Math.floor((now - lastActivityAt) / DAY_MS));
+}
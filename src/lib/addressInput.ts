@@ -0,0 +1,155 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import type { ParsedAccountData } from '@solana/web3.js';
+import { TOKEN_PROGRAM_IDS } from '@/constants';
+import { isSolDomain } from '@/lib/domainResolver';
+import type { DomainResolver } from '@/lib/domainResolver';
+import { createLogger } from '@/lib/logger';
+
+/** Where a typed or pasted address came from. */
+export type AddressInputSource = 'address' | 'domain' | 'solana-pay' | 'solscan' | 'explorer' | 'xray';
+
+export type ParsedAddressInput =
+  | { ok: true; kind: 'address'; address: string; source: AddressInputSource }
+  | { ok: true; kind: 'domain'; domain: string; source: 'domain' }
+  | { ok: false; error: string };
+
+export type ScanTarget = { ok: true; address: string; source: AddressInputSource } | { ok: false; error: string };
+
+const scanLog = createLogger('scan');
+
+const SOURCE_LABELS: Record<AddressInputSource, string> = {
+  address: 'Address',
+  domain: '.sol name',
+  'solana-pay': 'Solana Pay link',
+  solscan: 'Solscan link',
+  explorer: 'Solana Explorer link',
+  xray: 'XRAY link',
+};
+
+// Path segments that name an account, per explorer host; `token` pages are mints
+const EXPLORER_HOSTS: Record<string, { source: AddressInputSource; accountPaths: string[] }> = {
+  'solscan.io': { source: 'solscan', accountPaths: ['account', 'address'] },
+  'explorer.solana.com': { source: 'explorer', accountPaths: ['address', 'account'] },
+  'xray.helius.xyz': { source: 'xray', accountPaths: ['account', 'address'] },
+};
+
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]+$/;
+
+export function describeAddressSource(source: AddressInputSource): string {
+  return SOURCE_LABELS[source];
+}
+
+function parseBase58(value: string, source: AddressInputSource): ParsedAddressInput {
+  if (/^0x[0-9a-f]{40}$/i.test(value)) return { ok: false, error: 'That is an Ethereum address; Identity Prism reads Solana wallets.' };
+  if (!BASE58_PATTERN.test(value)) return { ok: false, error: 'Solana addresses use base58 characters only (no 0, O, I or l).' };
+  try {
+    return { ok: true, kind: 'address', address: new PublicKey(value).toBase58(), source };
+  } catch {
+    return { ok: false, error: 'That is not a valid Solana address; check it is complete (32–44 characters).' };
+  }
+}
+
+function parseSolanaPayUri(value: string): ParsedAddressInput {
+  const recipient = decodeURIComponent(value.slice('solana:'.length).split('?')[0]);
+  if (/^https?:/i.test(recipient)) {
+    return { ok: false, error: 'That Solana Pay link is a transaction request and names no wallet.' };
+  }
+  return parseBase58(recipient, 'solana-pay');
+}
+
+function parseExplorerUrl(url: URL): ParsedAddressInput | null {
+  const explorer = EXPLORER_HOSTS[url.hostname.replace(/^www\./, '')];
+  if (!explorer) return null;
+  const [section, id] = url.pathname.split('/').filter(Boolean);
+  const label = SOURCE_LABELS[explorer.source];
+  if (section === 'tx') return { ok: false, error: `That ${label} points to a transaction, not a wallet.` };
+  if (section === 'token') return { ok: false, error: `That ${label} points to a token mint, not a wallet.` };
+  if (!id || !explorer.accountPaths.includes(section)) {
+    return { ok: false, error: `That ${label} does not point to an account.` };
+  }
+  return parseBase58(id, explorer.source);
+}
+
+/**
+ * Reads a wallet reference from whatever was typed or pasted: a base58
+ * address, a `.sol` name, a Solana Pay `solana:` URI or a Solscan, Solana
+ * Explorer or XRAY account URL. Purely syntactic; `resolveScanTarget` does
+ * the lookups.
+ */
+export function parseAddressInput(input: string): ParsedAddressInput {
+  const value = input.trim();
+  if (!value) return { ok: false, error: 'Enter a wallet address, .sol name or explorer link.' };
+
+  if (/^solana:/i.test(value)) return parseSolanaPayUri(value);
+
+  if (/^https?:\/\//i.test(value) || /^(www\.)?(solscan\.io|explorer\.solana\.com|xray\.helius\.xyz)\//i.test(value)) {
+    let url: URL;
+    try {
+      url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    } catch {
+      return { ok: false, error: 'That link could not be read.' };
+    }
+    return parseExplorerUrl(url) ?? { ok: false, error: 'Only Solscan, Solana Explorer and XRAY links are supported.' };
+  }
+
+  if (isSolDomain(value)) return { ok: true, kind: 'domain', domain: value.toLowerCase(), source: 'domain' };
+  return parseBase58(value, 'address');
+}
+
+/**
+ * Why `address` cannot be scanned as a wallet, or null when it can. Programs,
+ * token mints and token accounts are refused; missing accounts are fine (an
+ * empty wallet). RPC failures are logged and let the address through, so the
+ * scan reports them instead.
+ */
+export async function checkWalletAccount(connection: Connection, address: string): Promise<string | null> {
+  let account: Awaited<ReturnType<Connection['getParsedAccountInfo']>>['value'];
+  try {
+    account = (await connection.getParsedAccountInfo(new PublicKey(address))).value;
+  } catch (error) {
+    scanLog.warn('Account check failed, scanning anyway', error);
+    return null;
+  }
+  if (!account) return null;
+
+  if (account.executable) return 'That address is a program, not a wallet. Programs hold no identity to scan.';
+
+  const owner = account.owner.toBase58();
+  if (owner === TOKEN_PROGRAM_IDS.spl || owner === TOKEN_PROGRAM_IDS.token2022) {
+    const parsed = 'parsed' in account.data ? (account.data as ParsedAccountData).parsed : null;
+    if (parsed?.type === 'mint') return 'That address is a token mint, not a wallet. Enter the address of someone who holds it.';
+    if (parsed?.type === 'account' && parsed.info?.owner) {
+      return `That address is a token account. It belongs to the wallet ${parsed.info.owner}; scan that instead.`;
+    }
+    return 'That address belongs to the token program, not a wallet.';
+  }
+  return null;
+}
+
+/** Parses `input`, resolves a `.sol` name and checks the account is a wallet. */
+export async function resolveScanTarget(
+  input: string,
+  { connection, resolver }: { connection: Connection; resolver: DomainResolver }
+): Promise<ScanTarget> {
+  const parsed = parseAddressInput(input);
+  if (parsed.ok === false) return parsed;
+
+  let address: string;
+  if (parsed.kind === 'domain') {
+    let owner: string | null = null;
+    try {
+      owner = await resolver.resolve(parsed.domain);
+    } catch (error) {
+      scanLog.error('Domain resolution failed', error);
+      return { ok: false, error: `${parsed.domain} could not be looked up; try again.` };
+    }
+    if (!owner) return { ok: false, error: `${parsed.domain} is not registered.` };
+    address = owner;
+  } else {
+    address = parsed.address;
+  }
+
+  const rejection = await checkWalletAccount(connection, address);
+  if (rejection) return { ok: false, error: rejection };
+  return { ok: true, address, source: parsed.source };
+}
@@ -0,0 +1,35 @@
+import type { Vector3Tuple } from 'three';
+
+export interface CameraPose {
+  position: Vector3Tuple;
+  target: Vector3Tuple;
+}
+
+export type CameraPoseListener = (pose: CameraPose, sourceId: string) => void;
+
+/**
+ * Shares one orbit between several canvases. The viewport the user last
+ * started dragging drives; the others follow its poses.
+ */
+export interface CameraSync {
+  /** Id of the viewport that last took user input, if any has. */
+  driver: string | null;
+  publish(sourceId: string, pose: CameraPose): void;
+  subscribe(listener: CameraPoseListener): () => void;
+}
+
+export function createCameraSync(): CameraSync {
+  const listeners = new Set<CameraPoseListener>();
+  return {
+    driver: null,
+    publish(sourceId, pose) {
+      listeners.forEach((listener) => listener(pose, sourceId));
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
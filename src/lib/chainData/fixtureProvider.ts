@@ -0,0 +1,115 @@
+import type { ConfirmedSignatureInfo } from '@solana/web3.js';
+import type { DASAsset, StakeAccount, TokenHolding } from '@/lib/walletScanner';
+import type { TransactionSummary } from '@/lib/txClassifier';
+import type { NetworkId } from '@/lib/network';
+import type { ChainDataProvider } from './types';
+
+/** Recorded chain data for one wallet. */
+export interface WalletFixture {
+  balanceLamports: number;
+  /** Newest first, as `getSignaturesForAddress` returns them. */
+  signatures: ConfirmedSignatureInfo[];
+  tokenHoldings: TokenHolding[];
+  stakeAccounts?: StakeAccount[];
+  /** Owned program accounts (DeFi positions), by owning program id. */
+  programAccounts?: Record<string, string[]>;
+  assets?: DASAsset[];
+  /** Decoded transactions, keyed into `signatures` by signature. */
+  transactions?: TransactionSummary[];
+}
+
+export type ChainDataFixture = Record<string, WalletFixture>;
+
+export interface FixtureProviderOptions {
+  /** Endpoint handed to wallet-adapter; fixtures cannot send transactions. */
+  rpcEndpoint: string;
+  /** Defaults to mainnet-beta. */
+  network?: NetworkId;
+  label?: string;
+  /** Set to false to simulate a provider without DAS. Defaults to true. */
+  das?: boolean;
+}
+
+const FIXTURE_PAGE_SIZE = 1000;
+
+/**
+ * Serves scans from recorded wallet data for offline development. `source`
+ * is either the fixture itself or a URL to fetch it from on first use.
+ * Unknown addresses behave like empty wallets.
+ */
+export function createFixtureProvider(source: ChainDataFixture | string, options: FixtureProviderOptions): ChainDataProvider {
+  let fixturePromise: Promise<ChainDataFixture> | null = null;
+
+  const loadFixture = () => {
+    if (!fixturePromise) {
+      fixturePromise = typeof source === 'string'
+        ? fetch(source).then((response) => {
+          if (!response.ok) throw new Error(`Fixture ${source} returned ${response.status}`);
+          return response.json() as Promise<ChainDataFixture>;
+        })
+        : Promise.resolve(source);
+    }
+    return fixturePromise;
+  };
+
+  const getWallet = async (address: string): Promise<WalletFixture> => {
+    const fixture = await loadFixture();
+    return fixture[address] ?? { balanceLamports: 0, signatures: [], tokenHoldings: [], assets: [] };
+  };
+
+  const provider: ChainDataProvider = {
+    id: 'fixture',
+    label: options.label ?? 'Fixture',
+    rpcEndpoint: options.rpcEndpoint,
+    network: options.network ?? 'mainnet-beta',
+
+    async getBalance(address) {
+      return (await getWallet(address)).balanceLamports;
+    },
+
+    async getSignatures(address, { limit, before, until }) {
+      const { signatures } = await getWallet(address);
+      const start = before ? signatures.findIndex((s) => s.signature === before) + 1 : 0;
+      const untilIndex = until ? signatures.findIndex((s) => s.signature === until) : -1;
+      const end = untilIndex >= 0 ? untilIndex : signatures.length;
+      if (before && start === 0) return [];
+      return signatures.slice(start, Math.min(end, start + limit));
+    },
+
+    async getTokenAccounts(address, tokenProgram) {
+      return (await getWallet(address)).tokenHoldings.filter((h) => h.tokenProgram === tokenProgram);
+    },
+
+    async getStakeAccounts(address) {
+      return (await getWallet(address)).stakeAccounts ?? [];
+    },
+
+    async getProgramAccountsByAuthority(programId, _authorityOffset, address) {
+      return (await getWallet(address)).programAccounts?.[programId] ?? [];
+    },
+
+    async getFirstSignature(address) {
+      const { signatures } = await getWallet(address);
+      return signatures[signatures.length - 1] ?? null;
+    },
+
+    async getTransactions(signatures) {
+      const fixture = await loadFixture();
+      const wanted = new Set(signatures);
+      return Object.values(fixture).flatMap((wallet) => (wallet.transactions ?? []).filter((tx) => wanted.has(tx.signature)));
+    },
+  };
+
+  if (options.das === false) return provider;
+
+  return {
+    ...provider,
+    assetPagination: 'page',
+    async listAssets(address, position) {
+      const assets = (await getWallet(address)).assets ?? [];
+      const page = 'page' in position ? position.page : 1;
+      const start = (page - 1) * FIXTURE_PAGE_SIZE;
+      return { items: assets.slice(start, start + FIXTURE_PAGE_SIZE), limit: FIXTURE_PAGE_SIZE, total: assets.length };
+    },
+  };
+}
@@ -0,0 +1,130 @@
+import type { ConfirmedSignatureInfo } from '@solana/web3.js';
+import { RPC_CONFIG } from '@/constants';
+import type { DASAsset } from '@/lib/walletScanner';
+import { createRequestLimiter, createResilientFetch } from '@/lib/rpcClient';
+import { createLogger } from '@/lib/logger';
+import { resolveNetwork } from '@/lib/network';
+import type { SolanaNetwork } from '@/lib/network';
+import { createRpcProvider } from './rpcProvider';
+import type { AssetPage, ChainDataProvider } from './types';
+
+const DAS_PAGE_SIZE = 1000;
+
+const dasLog = createLogger('das');
+
+/** The parts of a Helius enhanced transaction the classifier reads. */
+interface EnhancedTransaction {
+  signature: string;
+  timestamp?: number;
+  type?: string;
+  instructions?: { programId: string; innerInstructions?: { programId: string }[] }[];
+  events?: { nft?: { buyer?: string; seller?: string } };
+}
+
+/**
+ * Helius RPC with the DAS `getAssetsByOwner` listing, walked by cursor.
+ * Throws for a network Helius does not serve.
+ */
+export function createHeliusProvider(apiKey: string, network: SolanaNetwork = resolveNetwork('mainnet-beta')): ChainDataProvider {
+  if (!network.heliusRpcUrl || !network.heliusRestUrl) throw new Error(`Helius does not serve ${network.label}`);
+  const rpcUrl = `${network.heliusRpcUrl}/?api-key=${apiKey}`;
+  const restUrl = network.heliusRestUrl;
+  const limiter = createRequestLimiter(RPC_CONFIG.MAX_CONCURRENT_REQUESTS);
+  const rpc = createRpcProvider(rpcUrl, { limiter, network: network.id });
+  const dasFetch = createResilientFetch({ limiter });
+
+  return {
+    ...rpc,
+    id: 'helius',
+    label: 'Helius',
+    assetPagination: 'cursor',
+
+    async listAssets(address, position) {
+      // Both modes use the same order, so a walk that falls back to pages sees the listing the same way
+      const pagination = { ...position, sortBy: { sortBy: 'id', sortDirection: 'asc' } };
+      const response = await dasFetch(rpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 'identity-prism-scan',
+          method: 'getAssetsByOwner',
+          params: {
+            ownerAddress: address,
+            limit: DAS_PAGE_SIZE,
+            ...pagination,
+            displayOptions: {
+              showCollectionMetadata: true,
+            },
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        dasLog.error(`HTTP ${response.status}`);
+        throw new Error(`DAS API returned ${response.status}`);
+      }
+
+      const dasResponse = (await response.json()) as {
+        result?: { items: DASAsset[]; total?: number; cursor?: string };
+        error?: { message?: string };
+      };
+
+      if (dasResponse.error) {
+        dasLog.error('DAS API error', dasResponse.error);
+        throw new Error(dasResponse.error.message || 'DAS API error');
+      }
+
+      const result = dasResponse.result;
+      const page: AssetPage = { items: result?.items || [], limit: DAS_PAGE_SIZE, total: result?.total };
+      if (result?.cursor) page.cursor = result.cursor;
+      return page;
+    },
+
+    // Helius-only RPC method that can list history oldest-first, so the first
+    // transaction is one request away instead of a walk through every page
+    async getFirstSignature(address) {
+      const response = await dasFetch(rpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 'identity-prism-first-activity',
+          method: 'getTransactionsForAddress',
+          params: [address, { transactionDetails: 'signatures', sortOrder: 'asc', limit: 1 }],
+        }),
+      });
+
+      if (!response.ok) throw new Error(`getTransactionsForAddress returned ${response.status}`);
+
+      const body = (await response.json()) as {
+        result?: { data?: ConfirmedSignatureInfo[] };
+        error?: { message?: string };
+      };
+      if (body.error) throw new Error(body.error.message || 'getTransactionsForAddress error');
+      return body.result?.data?.[0] ?? null;
+    },
+
+    async getTransactions(signatures) {
+      const response = await dasFetch(`${restUrl}/transactions?api-key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transactions: signatures }),
+      });
+
+      if (!response.ok) throw new Error(`Enhanced transactions API returned ${response.status}`);
+
+      const transactions = (await response.json()) as EnhancedTransaction[];
+      return transactions.map((tx) => ({
+        signature: tx.signature,
+        timestamp: tx.timestamp ?? null,
+        type: tx.type,
+        instructions: (tx.instructions ?? []).flatMap((ix) => [
+          { programId: ix.programId },
+          ...(ix.innerInstructions ?? []).map((inner) => ({ programId: inner.programId, inner: true })),
+        ]),
+        nft: tx.events?.nft ? { buyer: tx.events.nft.buyer, seller: tx.events.nft.seller } : undefined,
+      }));
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { HELIUS_CONFIG, CHAIN_DATA_CONFIG } from '@/constants';
+import { createLogger } from '@/lib/logger';
+import { getNetwork } from '@/lib/network';
+import type { SolanaNetwork } from '@/lib/network';
+import { createHeliusProvider } from './heliusProvider';
+import { createRpcProvider } from './rpcProvider';
+import { createFixtureProvider } from './fixtureProvider';
+import type { ChainDataProvider, ChainDataProviderId } from './types';
+
+export * from './types';
+export { createHeliusProvider } from './heliusProvider';
+export { createRpcProvider } from './rpcProvider';
+export { createFixtureProvider } from './fixtureProvider';
+export type { ChainDataFixture, WalletFixture } from './fixtureProvider';
+
+/**
+ * Picks the provider for `network` from `VITE_CHAIN_PROVIDER`, falling back to
+ * Helius when an API key is configured and Helius serves the network, and to
+ * plain RPC otherwise.
+ */
+export function createDefaultChainDataProvider(network: SolanaNetwork = getNetwork()): ChainDataProvider {
+  const requested = CHAIN_DATA_CONFIG.PROVIDER as ChainDataProviderId | undefined;
+  const rpcUrl = network.rpcUrl;
+
+  if (requested === 'fixture') {
+    return createFixtureProvider(CHAIN_DATA_CONFIG.FIXTURE_URL, { rpcEndpoint: rpcUrl, network: network.id });
+  }
+  if (requested === 'rpc' || !HELIUS_CONFIG.API_KEY || !network.heliusRpcUrl) {
+    if (requested === 'helius') {
+      createLogger('scan').warn(
+        HELIUS_CONFIG.API_KEY
+          ? `VITE_CHAIN_PROVIDER=helius but Helius does not serve ${network.label}; using plain RPC.`
+          : 'VITE_CHAIN_PROVIDER=helius but no Helius API key is set; using plain RPC.'
+      );
+    }
+    return createRpcProvider(rpcUrl, { network: network.id });
+  }
+  return createHeliusProvider(HELIUS_CONFIG.API_KEY, network);
+}
+
+let defaultProvider: { network: SolanaNetwork; provider: ChainDataProvider } | null = null;
+
+/** The provider for the selected network; a new one once `setNetwork` picks another. */
+export function getChainDataProvider(network: SolanaNetwork = getNetwork()): ChainDataProvider {
+  if (defaultProvider?.network !== network) {
+    defaultProvider = { network, provider: createDefaultChainDataProvider(network) };
+  }
+  return defaultProvider.provider;
+}
@@ -0,0 +1,124 @@
+import { PublicKey, StakeProgram } from '@solana/web3.js';
+import { TOKEN_PROGRAM_IDS } from '@/constants';
+import { createResilientConnection } from '@/lib/rpcClient';
+import type { RequestLimiter } from '@/lib/rpcClient';
+import type { TransactionSummary } from '@/lib/txClassifier';
+import type { StakeAccount } from '@/lib/walletScanner';
+import type { NetworkId } from '@/lib/network';
+import type { ChainDataProvider } from './types';
+
+// Byte offsets of the staker and withdrawer authorities in stake account data
+const STAKER_AUTHORITY_OFFSET = 12;
+const WITHDRAWER_AUTHORITY_OFFSET = 44;
+// deactivationEpoch of a delegation that has never been deactivated (u64::MAX)
+const NOT_DEACTIVATED = '18446744073709551615';
+
+interface ParsedStakeData {
+  type: string;
+  info: {
+    stake?: { delegation: { voter: string; stake: string; activationEpoch: string; deactivationEpoch: string } };
+  };
+}
+
+export interface RpcProviderOptions {
+  label?: string;
+  /** Cluster `rpcUrl` belongs to. Defaults to mainnet-beta. */
+  network?: NetworkId;
+  /** Share a concurrency cap with other requests to the same host. */
+  limiter?: RequestLimiter;
+}
+
+/**
+ * Plain JSON-RPC provider. Works against any Solana node, but has no DAS
+ * listing, so collection-based traits cannot be derived from it.
+ */
+export function createRpcProvider(rpcUrl: string, options: RpcProviderOptions = {}): ChainDataProvider {
+  const connection = createResilientConnection(rpcUrl, 'confirmed', { limiter: options.limiter });
+
+  return {
+    id: 'rpc',
+    label: options.label ?? 'Solana RPC',
+    rpcEndpoint: rpcUrl,
+    network: options.network ?? 'mainnet-beta',
+
+    getBalance(address) {
+      return connection.getBalance(new PublicKey(address));
+    },
+
+    getSignatures(address, { limit, before, until }) {
+      return connection.getSignaturesForAddress(new PublicKey(address), { limit, before, until });
+    },
+
+    async getTokenAccounts(address, tokenProgram) {
+      const response = await connection.getParsedTokenAccountsByOwner(new PublicKey(address), {
+        programId: new PublicKey(TOKEN_PROGRAM_IDS[tokenProgram]),
+      });
+
+      return response.value.map((ta) => {
+        const info = ta.account.data.parsed.info as {
+          mint: string;
+          tokenAmount: { uiAmount: number | null; decimals: number };
+        };
+        return {
+          mint: info.mint,
+          uiAmount: info.tokenAmount.uiAmount || 0,
+          decimals: info.tokenAmount.decimals,
+          tokenProgram,
+        };
+      });
+    },
+
+    async getStakeAccounts(address) {
+      const byAuthority = (offset: number) =>
+        connection.getParsedProgramAccounts(StakeProgram.programId, {
+          filters: [{ memcmp: { offset, bytes: address } }],
+        });
+      const [asStaker, asWithdrawer] = await Promise.all([
+        byAuthority(STAKER_AUTHORITY_OFFSET),
+        byAuthority(WITHDRAWER_AUTHORITY_OFFSET),
+      ]);
+
+      const byAddress = new Map<string, StakeAccount>();
+      [...asStaker, ...asWithdrawer].forEach(({ pubkey, account }) => {
+        const key = pubkey.toBase58();
+        if (byAddress.has(key) || !('parsed' in account.data)) return;
+        const delegation = (account.data.parsed as ParsedStakeData).info.stake?.delegation;
+        byAddress.set(key, {
+          address: key,
+          lamports: account.lamports,
+          delegatedLamports: delegation ? Number(delegation.stake) : 0,
+          voter: delegation?.voter ?? null,
+          activationEpoch: delegation ? Number(delegation.activationEpoch) : null,
+          deactivating: Boolean(delegation && delegation.deactivationEpoch !== NOT_DEACTIVATED),
+        });
+      });
+      return Array.from(byAddress.values());
+    },
+
+    async getProgramAccountsByAuthority(programId, authorityOffset, address) {
+      const accounts = await connection.getProgramAccounts(new PublicKey(programId), {
+        // Only the addresses are needed, so skip the account data entirely
+        dataSlice: { offset: 0, length: 0 },
+        filters: [{ memcmp: { offset: authorityOffset, bytes: address } }],
+      });
+      return accounts.map(({ pubkey }) => pubkey.toBase58());
+    },
+
+    async getTransactions(signatures) {
+      const transactions = await connection.getParsedTransactions(signatures, { maxSupportedTransactionVersion: 0 });
+      return transactions.flatMap((tx, i): TransactionSummary[] => {
+        if (!tx) return [];
+        const inner = (tx.meta?.innerInstructions ?? []).flatMap((set) => set.instructions);
+        return [{
+          signature: signatures[i],
+          timestamp: tx.blockTime ?? null,
+          instructions: [...tx.transaction.message.instructions, ...inner].map((ix, index) => ({
+            programId: ix.programId.toBase58(),
+            type: 'parsed' in ix ? (ix.parsed as { type?: string })?.type : undefined,
+            inner: index >= tx.transaction.message.instructions.length,
+          })),
+        }];
+      });
+    },
+  };
+}
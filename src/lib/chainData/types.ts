@@ -0,0 +1,71 @@
+import type { ConfirmedSignatureInfo } from '@solana/web3.js';
+import type { DASAsset, StakeAccount, TokenHolding, TokenProgram } from '@/lib/walletScanner';
+import type { TransactionSummary } from '@/lib/txClassifier';
+import type { NetworkId } from '@/lib/network';
+
+export type ChainDataProviderId = 'helius' | 'rpc' | 'fixture';
+
+export interface SignaturePageOptions {
+  limit: number;
+  before?: string;
+  until?: string;
+}
+
+export type AssetPagePosition = { page: number } | { cursor?: string };
+
+export interface AssetPage {
+  items: DASAsset[];
+  /** Page size the request was made with; a shorter page is the last one. */
+  limit: number;
+  /** Total reported by the provider, when it sends one. */
+  total?: number;
+  /** Present when the provider paginates by keyset cursor. */
+  cursor?: string;
+}
+
+/**
+ * Source of the raw chain data a scan is built from. Each method returns a
+ * single page; paging, merging and trait derivation stay in the scanner.
+ */
+export interface ChainDataProvider {
+  id: ChainDataProviderId;
+  /** Human-readable name shown next to scan results. */
+  label: string;
+  /** JSON-RPC endpoint for wallet-adapter connections and transaction sending. */
+  rpcEndpoint: string;
+  /** Cluster the provider reads from; cached scans are kept apart per network. */
+  network: NetworkId;
+  getBalance(address: string): Promise<number>;
+  getSignatures(address: string, options: SignaturePageOptions): Promise<ConfirmedSignatureInfo[]>;
+  getTokenAccounts(address: string, tokenProgram: TokenProgram): Promise<TokenHolding[]>;
+  /** Native stake accounts with `address` as staker or withdrawer authority. */
+  getStakeAccounts(address: string): Promise<StakeAccount[]>;
+  /**
+   * Addresses of accounts owned by `programId` whose 32 bytes at
+   * `authorityOffset` equal `address`. Absent when the provider cannot filter
+   * program accounts.
+   */
+  getProgramAccountsByAuthority?(programId: string, authorityOffset: number, address: string): Promise<string[]>;
+  /** DAS asset listing. Absent when the provider has no DAS support. */
+  listAssets?(address: string, position: AssetPagePosition): Promise<AssetPage>;
+  /** How `listAssets` prefers to be walked. */
+  assetPagination?: 'page' | 'cursor';
+  /**
+   * Oldest signature for `address` in a single request, or null for a wallet
+   * with no history. Absent when the provider can only page backwards.
+   */
+  getFirstSignature?(address: string): Promise<ConfirmedSignatureInfo | null>;
+  /**
+   * Decoded transactions for up to `TRANSACTION_BATCH_SIZE` signatures.
+   * Signatures the provider cannot find are left out of the result.
+   */
+  getTransactions?(signatures: string[]): Promise<TransactionSummary[]>;
+}
+
+/** Most signatures a single `getTransactions` call is asked for. */
+export const TRANSACTION_BATCH_SIZE = 100;
+
+export interface ChainDataProviderInfo {
+  id: ChainDataProviderId;
+  label: string;
+}
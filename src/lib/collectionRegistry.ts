@@ -0,0 +1,95 @@
+import { PublicKey } from '@solana/web3.js';
+import { BLUE_CHIP_COLLECTIONS, BLUE_CHIP_TIER_WEIGHTS } from '@/constants';
+import type { BlueChipCollectionConfig, BlueChipTier } from '@/constants';
+import type { DASAsset } from '@/lib/walletScanner';
+
+/** A blue-chip collection the wallet holds items from. */
+export interface BlueChipHolding {
+  mint: string;
+  name: string;
+  tier: BlueChipTier;
+  weight: number;
+  count: number;
+}
+
+function isValidAddress(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Problems with a collection registry: addresses that are not valid base58
+ * public keys, duplicate mints and unknown tiers. Empty when it is valid.
+ */
+export function validateCollectionRegistry(registry: BlueChipCollectionConfig[]): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  registry.forEach(({ mint, name, tier, match }) => {
+    if (!isValidAddress(mint)) problems.push(`${name}: collection mint ${mint} is not a valid address`);
+    if (seen.has(mint)) problems.push(`${name}: collection mint ${mint} is listed more than once`);
+    seen.add(mint);
+    if (!(tier in BLUE_CHIP_TIER_WEIGHTS)) problems.push(`${name}: unknown tier ${tier}`);
+    match?.creators.forEach((creator) => {
+      if (!isValidAddress(creator)) problems.push(`${name}: creator ${creator} is not a valid address`);
+    });
+    if (match && match.creators.length === 0) problems.push(`${name}: a match rule needs at least one creator`);
+  });
+  return problems;
+}
+
+// Fail on load so a bad registry edit surfaces immediately instead of silently never matching
+const registryProblems = validateCollectionRegistry(BLUE_CHIP_COLLECTIONS);
+if (registryProblems.length > 0) {
+  throw new Error(`Invalid BLUE_CHIP_COLLECTIONS:\n${registryProblems.join('\n')}`);
+}
+
+const COLLECTIONS_BY_MINT = new Map(BLUE_CHIP_COLLECTIONS.map((collection) => [collection.mint, collection]));
+const RULE_COLLECTIONS = BLUE_CHIP_COLLECTIONS.filter((collection) => collection.match);
+
+/**
+ * The registry collection `asset` belongs to, or null. Only verified
+ * collection groupings and verified creators count: anyone can airdrop an
+ * item that merely names a blue-chip collection.
+ */
+export function matchBlueChipCollection(asset: DASAsset): BlueChipCollectionConfig | null {
+  const collectionMint = (asset.grouping || []).find((g) => g.group_key === 'collection' && g.verified !== false)?.group_value;
+  const byMint = collectionMint ? COLLECTIONS_BY_MINT.get(collectionMint) : undefined;
+  if (byMint) return byMint;
+
+  const verifiedCreators = new Set((asset.creators || []).filter((c) => c.verified).map((c) => c.address));
+  const name = asset.content?.metadata?.name || '';
+  return (
+    RULE_COLLECTIONS.find(
+      ({ match }) =>
+        match.creators.some((creator) => verifiedCreators.has(creator)) &&
+        (!match.namePrefix || name.startsWith(match.namePrefix))
+    ) ?? null
+  );
+}
+
+/** Collections held, heaviest tier first, with how many items of each. */
+export function collectBlueChipHoldings(assets: DASAsset[]): BlueChipHolding[] {
+  const holdings = new Map<string, BlueChipHolding>();
+  assets.forEach((asset) => {
+    const collection = matchBlueChipCollection(asset);
+    if (!collection) return;
+    const existing = holdings.get(collection.mint);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+    holdings.set(collection.mint, {
+      mint: collection.mint,
+      name: collection.name,
+      tier: collection.tier,
+      weight: BLUE_CHIP_TIER_WEIGHTS[collection.tier],
+      count: 1,
+    });
+  });
+  return Array.from(holdings.values()).sort((a, b) => b.weight - a.weight || b.count - a.count);
+}
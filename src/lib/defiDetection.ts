@@ -0,0 +1,54 @@
+import { DEFI_PROTOCOLS } from '@/constants';
+import type { TransactionSummary } from '@/lib/txClassifier';
+
+/** How a wallet has used one DeFi protocol. */
+export interface DefiProtocolUsage {
+  id: string;
+  name: string;
+  /** Classified transactions that invoked one of the protocol's programs. */
+  txCount: number;
+  /** Position accounts (obligations, margin accounts, ...) the wallet owns. */
+  positionCount: number;
+}
+
+const PROTOCOL_BY_PROGRAM = new Map(
+  DEFI_PROTOCOLS.flatMap((protocol) => protocol.programIds.map((programId) => [programId, protocol] as const))
+);
+
+/**
+ * Per-protocol usage from invoked programs and owned position accounts,
+ * most used first. `positions` maps protocol id to owned account addresses.
+ */
+export function detectDefiUsage(
+  transactions: TransactionSummary[],
+  positions: Record<string, string[]>
+): DefiProtocolUsage[] {
+  const usage = new Map<string, DefiProtocolUsage>();
+  const entryFor = (protocol: (typeof DEFI_PROTOCOLS)[number]) => {
+    let entry = usage.get(protocol.id);
+    if (!entry) {
+      entry = { id: protocol.id, name: protocol.name, txCount: 0, positionCount: 0 };
+      usage.set(protocol.id, entry);
+    }
+    return entry;
+  };
+
+  transactions.forEach((tx) => {
+    // Count each protocol once per transaction, however many of its instructions ran.
+    // Only top-level calls count: an aggregator's route through other DEXes is
+    // one use of the aggregator, not of every pool it passed through
+    const touched = new Set(
+      tx.instructions.filter((ix) => !ix.inner).map((ix) => PROTOCOL_BY_PROGRAM.get(ix.programId)).filter(Boolean)
+    );
+    touched.forEach((protocol) => entryFor(protocol).txCount++);
+  });
+
+  DEFI_PROTOCOLS.forEach((protocol) => {
+    const owned = positions[protocol.id]?.length ?? 0;
+    if (owned > 0) entryFor(protocol).positionCount = owned;
+  });
+
+  return Array.from(usage.values()).sort(
+    (a, b) => b.positionCount - a.positionCount || b.txCount - a.txCount
+  );
+}
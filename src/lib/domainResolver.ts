@@ -0,0 +1,86 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import { SNS_CONFIG } from '@/constants';
+import type { NetworkId } from '@/lib/network';
+
+/** Maps Solana Name Service `.sol` names to owner addresses and back. */
+export interface DomainResolver {
+  /** Owner address for `name` (with or without the `.sol` suffix), or null if unregistered. */
+  resolve(name: string): Promise<string | null>;
+  /** Primary `.sol` name configured by `address`, without the suffix, or null if none. */
+  reverseLookup(address: string): Promise<string | null>;
+}
+
+const SOL_SUFFIX = '.sol';
+const HASH_PREFIX = 'SPL Name Service';
+// Name registry header: parent (32) | owner (32) | class (32)
+const OWNER_OFFSET = 32;
+
+export function isSolDomain(input: string): boolean {
+  const value = input.trim().toLowerCase();
+  return value.endsWith(SOL_SUFFIX) && value.length > SOL_SUFFIX.length;
+}
+
+export function normalizeDomain(input: string): string {
+  const value = input.trim().toLowerCase();
+  return value.endsWith(SOL_SUFFIX) ? value.slice(0, -SOL_SUFFIX.length) : value;
+}
+
+async function hashName(name: string): Promise<Buffer> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(HASH_PREFIX + name));
+  return Buffer.from(digest);
+}
+
+async function getDomainKey(name: string): Promise<PublicKey> {
+  const [key] = PublicKey.findProgramAddressSync(
+    [await hashName(name), Buffer.alloc(32), new PublicKey(SNS_CONFIG.SOL_TLD_AUTHORITY).toBuffer()],
+    new PublicKey(SNS_CONFIG.NAME_PROGRAM_ID)
+  );
+  return key;
+}
+
+/**
+ * Resolver backed by the SNS name program. Forward lookups read the name
+ * registry account through `connection`; reverse lookups go through the SNS
+ * SDK proxy because primary-domain records need the favourite-domain program.
+ * The proxy only knows mainnet, so reverse lookups find nothing elsewhere.
+ */
+export function createSnsResolver(connection: Connection, network: NetworkId = 'mainnet-beta'): DomainResolver {
+  const reverseCache = new Map<string, string | null>();
+
+  return {
+    async resolve(name) {
+      const domain = normalizeDomain(name);
+      if (!domain || domain.includes('.')) return null;
+      const account = await connection.getAccountInfo(await getDomainKey(domain));
+      if (!account || account.data.length < OWNER_OFFSET + 32) return null;
+      return new PublicKey(account.data.subarray(OWNER_OFFSET, OWNER_OFFSET + 32)).toBase58();
+    },
+
+    async reverseLookup(address) {
+      if (network !== 'mainnet-beta') return null;
+      if (reverseCache.has(address)) return reverseCache.get(address) ?? null;
+      const response = await fetch(`${SNS_CONFIG.PROXY_URL}/favorite-domain/${address}`);
+      if (!response.ok) throw new Error(`SNS proxy returned ${response.status}`);
+      const body = (await response.json()) as { s: string; result?: { reverse?: string } };
+      const domain = body.s === 'ok' && body.result?.reverse ? body.result.reverse : null;
+      reverseCache.set(address, domain);
+      return domain;
+    },
+  };
+}
+
+/** In-memory resolver for offline development and tests. Keys are names without `.sol`. */
+export function createFixtureResolver(records: Record<string, string>): DomainResolver {
+  const normalized = Object.fromEntries(Object.entries(records).map(([name, owner]) => [normalizeDomain(name), owner]));
+  const reverse = Object.fromEntries(Object.entries(normalized).map(([name, owner]) => [owner, name]));
+
+  return {
+    async resolve(name) {
+      return normalized[normalizeDomain(name)] ?? null;
+    },
+    async reverseLookup(address) {
+      return reverse[address] ?? null;
+    },
+  };
+}
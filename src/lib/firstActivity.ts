@@ -0,0 +1,100 @@
+import type { ConfirmedSignatureInfo } from '@solana/web3.js';
+import type { ChainDataProvider } from '@/lib/chainData';
+import { createPersistentStore } from '@/lib/keyValueStore';
+import type { KeyValueStore } from '@/lib/keyValueStore';
+import { createLogger } from '@/lib/logger';
+
+/** The oldest transaction found for a wallet. */
+export interface FirstActivity {
+  signature: string;
+  /** Unix seconds; null when the node no longer has the block time. */
+  blockTime: number | null;
+  /** False when the walk hit its page cap before history ran out. */
+  exact: boolean;
+  source: 'provider' | 'history' | 'scan';
+}
+
+export interface FirstActivityOptions {
+  /** Oldest signature already known; the walk continues from there. */
+  before?: string;
+  store?: KeyValueStore<FirstActivity>;
+}
+
+const scanLog = createLogger('scan');
+
+const HISTORY_PAGE_SIZE = 1000;
+// 200k signatures; past this the walk costs more than a slightly low age is worth
+const MAX_HISTORY_PAGES = 200;
+
+let defaultStore: KeyValueStore<FirstActivity> | null = null;
+
+function getDefaultFirstActivityStore(): KeyValueStore<FirstActivity> {
+  if (!defaultStore) {
+    defaultStore = createPersistentStore<FirstActivity>('firstActivity');
+  }
+  return defaultStore;
+}
+
+export function toFirstActivity(info: ConfirmedSignatureInfo, source: FirstActivity['source']): FirstActivity {
+  return { signature: info.signature, blockTime: info.blockTime ?? null, exact: true, source };
+}
+
+async function walkHistory(provider: ChainDataProvider, address: string, before?: string): Promise<FirstActivity | null> {
+  let oldest: ConfirmedSignatureInfo | null = null;
+  let cursor = before;
+
+  for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+    const sigs = await provider.getSignatures(address, { limit: HISTORY_PAGE_SIZE, before: cursor });
+    if (sigs.length > 0) {
+      oldest = sigs[sigs.length - 1];
+      cursor = oldest.signature;
+    }
+    if (sigs.length < HISTORY_PAGE_SIZE) {
+      return oldest ? toFirstActivity(oldest, 'history') : null;
+    }
+  }
+
+  scanLog.warn(`First activity walk stopped after ${MAX_HISTORY_PAGES} pages; wallet age is a lower bound.`);
+  return oldest ? { ...toFirstActivity(oldest, 'history'), exact: false } : null;
+}
+
+/**
+ * Finds the first transaction `address` ever made. Uses the provider's
+ * one-request shortcut when it has one, otherwise pages backwards from
+ * `before`. A wallet's first transaction never changes, so exact results are
+ * cached permanently. Returns null when the walk finds nothing older than
+ * `before` (or no history at all).
+ */
+export async function findFirstActivity(
+  address: string,
+  provider: ChainDataProvider,
+  options: FirstActivityOptions = {}
+): Promise<FirstActivity | null> {
+  const store = options.store ?? getDefaultFirstActivityStore();
+  const key = `${provider.network}:${provider.id}:${address}`;
+
+  try {
+    const cached = await store.get(key);
+    if (cached) return cached;
+  } catch (error) {
+    scanLog.warn('First activity cache read failed', error);
+  }
+
+  let result: FirstActivity | null = null;
+  if (provider.getFirstSignature) {
+    try {
+      const first = await provider.getFirstSignature(address);
+      if (first) result = toFirstActivity(first, 'provider');
+    } catch (error) {
+      scanLog.warn('First activity shortcut failed, walking history instead', error);
+    }
+  }
+  if (!result) {
+    result = await walkHistory(provider, address, options.before);
+  }
+
+  if (result?.exact) {
+    store.put(key, result).catch((error) => scanLog.warn('First activity cache write failed', error));
+  }
+  return result;
+}
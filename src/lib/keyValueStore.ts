@@ -0,0 +1,75 @@
+import { SCAN_CACHE_CONFIG } from '@/constants';
+
+/** Async key/value storage. Values must survive structured cloning. */
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  put(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export function createMemoryStore<T>(): KeyValueStore<T> {
+  const entries = new Map<string, T>();
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async put(key, value) {
+      entries.set(key, value);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(SCAN_CACHE_CONFIG.DB_NAME, SCAN_CACHE_CONFIG.DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      SCAN_CACHE_CONFIG.STORES.forEach((name) => {
+        // v1 kept scans under an in-line keyPath; its contents are only a cache, so start over
+        if (db.objectStoreNames.contains(name) && request.transaction.objectStore(name).keyPath !== null) {
+          db.deleteObjectStore(name);
+        }
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      });
+    };
+    dbPromise = promisifyRequest(request);
+  }
+  return dbPromise;
+}
+
+/** Store backed by one object store of the app's IndexedDB database. */
+export function createIndexedDbStore<T>(storeName: string): KeyValueStore<T> {
+  const withStore = async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>) => {
+    const db = await openDb();
+    return promisifyRequest(run(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    async get(key) {
+      return (await withStore('readonly', (store) => store.get(key))) as T | undefined;
+    },
+    async put(key, value) {
+      await withStore('readwrite', (store) => store.put(value, key));
+    },
+    async delete(key) {
+      await withStore('readwrite', (store) => store.delete(key));
+    },
+  };
+}
+
+/** IndexedDB in the browser, an in-memory map where IndexedDB is unavailable (scripts, servers). */
+export function createPersistentStore<T>(storeName: string): KeyValueStore<T> {
+  return typeof indexedDB !== 'undefined' ? createIndexedDbStore<T>(storeName) : createMemoryStore<T>();
+}
@@ -0,0 +1,258 @@
+import { IDENTITY_CONFIG } from '@/constants';
+import type { DASAsset, ScanInputs, TokenHolding, WalletScanResult, WalletTraits } from '@/lib/walletScanner';
+import { scanWalletCached } from '@/lib/scanCache';
+import type { CachedScanOptions, CacheStatus } from '@/lib/scanCache';
+import type { ChainDataProvider } from '@/lib/chainData';
+import { toFirstActivity } from '@/lib/firstActivity';
+import type { FirstActivity } from '@/lib/firstActivity';
+import { isFungibleAsset } from '@/lib/portfolio';
+import { verifyOwnershipProof } from '@/lib/ownershipProof';
+import type { OwnershipProof } from '@/lib/ownershipProof';
+import { analyzeScanInputs } from '@/lib/worker';
+import { createPersistentStore } from '@/lib/keyValueStore';
+import type { KeyValueStore } from '@/lib/keyValueStore';
+import { createLogger } from '@/lib/logger';
+
+/** Wallets one person has proven they own, scored together. */
+export interface LinkedIdentity {
+  id: string;
+  /** One proof per wallet, in the order they were linked. */
+  wallets: OwnershipProof[];
+}
+
+/** One wallet's own scan within a linked identity. */
+export interface WalletContribution {
+  address: string;
+  score: number;
+  traits: WalletTraits;
+}
+
+export interface LinkedIdentityScanResult extends WalletScanResult {
+  cacheStatus: CacheStatus;
+  /** Per-wallet scans the merged result was built from, in scan order. */
+  wallets: WalletContribution[];
+}
+
+export type LinkedIdentityStore = KeyValueStore<LinkedIdentity>;
+
+const scanLog = createLogger('scan');
+
+// The identity linked on this device; a browser holds one at a time
+const CURRENT_IDENTITY_KEY = 'current';
+
+let defaultStore: LinkedIdentityStore | null = null;
+
+export function getLinkedIdentityStore(): LinkedIdentityStore {
+  if (!defaultStore) {
+    defaultStore = createPersistentStore<LinkedIdentity>('identities');
+  }
+  return defaultStore;
+}
+
+export function createLinkedIdentity(): LinkedIdentity {
+  return { id: crypto.randomUUID(), wallets: [] };
+}
+
+/**
+ * The stored identity with every proof re-verified; proofs that no longer
+ * check out (edited storage, another identity's proof) are dropped.
+ */
+export async function loadLinkedIdentity(store: LinkedIdentityStore = getLinkedIdentityStore()): Promise<LinkedIdentity | null> {
+  let stored: LinkedIdentity | undefined;
+  try {
+    stored = await store.get(CURRENT_IDENTITY_KEY);
+  } catch (error) {
+    scanLog.warn('Linked identity read failed', error);
+    return null;
+  }
+  if (!stored) return null;
+
+  const checks = await Promise.all(
+    stored.wallets.map((proof) => (proof.identityId === stored.id ? verifyOwnershipProof(proof) : Promise.resolve(false)))
+  );
+  return { id: stored.id, wallets: stored.wallets.filter((_, i) => checks[i]) };
+}
+
+export async function saveLinkedIdentity(identity: LinkedIdentity, store: LinkedIdentityStore = getLinkedIdentityStore()): Promise<void> {
+  await store.put(CURRENT_IDENTITY_KEY, identity);
+}
+
+/** Adds or replaces the proof for `proof.address`. Throws past `IDENTITY_CONFIG.MAX_WALLETS`. */
+export function withOwnershipProof(identity: LinkedIdentity, proof: OwnershipProof): LinkedIdentity {
+  if (proof.identityId !== identity.id) throw new Error('Proof was signed for another identity');
+  const others = identity.wallets.filter((w) => w.address !== proof.address);
+  if (others.length >= IDENTITY_CONFIG.MAX_WALLETS) {
+    throw new Error(`An identity can link at most ${IDENTITY_CONFIG.MAX_WALLETS} wallets`);
+  }
+  return { ...identity, wallets: [...others, proof] };
+}
+
+export function withoutWallet(identity: LinkedIdentity, address: string): LinkedIdentity {
+  return { ...identity, wallets: identity.wallets.filter((w) => w.address !== address) };
+}
+
+function dedupeBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Map<string, T>();
+  items.forEach((item) => {
+    if (!seen.has(key(item))) seen.set(key(item), item);
+  });
+  return Array.from(seen.values());
+}
+
+function rawBalance(asset: DASAsset): number {
+  const raw = asset.token_info?.balance ?? asset.token_info?.amount ?? 0;
+  return typeof raw === 'number' ? raw : parseFloat(raw || '0');
+}
+
+// An NFT seen from two wallets is the same item; a fungible mint held in both adds up
+function mergeAssets(lists: DASAsset[][]): DASAsset[] {
+  const byId = new Map<string, DASAsset>();
+  lists.flat().forEach((asset) => {
+    const existing = byId.get(asset.id);
+    if (!existing) {
+      byId.set(asset.id, asset);
+    } else if (isFungibleAsset(asset)) {
+      byId.set(asset.id, { ...existing, token_info: { ...existing.token_info, balance: rawBalance(existing) + rawBalance(asset) } });
+    }
+  });
+  return Array.from(byId.values());
+}
+
+function mergeTokenHoldings(lists: TokenHolding[][]): TokenHolding[] {
+  const byMint = new Map<string, TokenHolding>();
+  lists.flat().forEach((holding) => {
+    const existing = byMint.get(holding.mint);
+    if (existing) existing.uiAmount += holding.uiAmount;
+    else byMint.set(holding.mint, { ...holding });
+  });
+  return Array.from(byMint.values());
+}
+
+// Each wallet's first transaction: its looked-up first activity, else the oldest signature it has
+function oldestFirstActivity(inputs: ScanInputs[]): FirstActivity | null {
+  const candidates = inputs
+    .map((input) => {
+      const oldest = input.signatures[input.signatures.length - 1];
+      return input.firstActivity ?? (oldest ? toFirstActivity(oldest, 'scan') : null);
+    })
+    .filter((activity): activity is FirstActivity => Boolean(activity?.blockTime));
+  if (candidates.length === 0) return null;
+  return candidates.reduce((oldest, activity) => (activity.blockTime < oldest.blockTime ? activity : oldest));
+}
+
+function mergeNullable<T>(values: (T | null)[], merge: (present: T[]) => T): T | null {
+  const present = values.filter((value): value is T => value !== null);
+  return present.length > 0 ? merge(present) : null;
+}
+
+/**
+ * Combines several wallets' inputs into the inputs of one identity: balances
+ * add up, items held by more than one wallet count once, transactions between
+ * the wallets count once, and the age is the oldest wallet's. The first
+ * entry's address stays the identity's address.
+ */
+export function mergeScanInputs(inputs: ScanInputs[]): ScanInputs {
+  if (inputs.length === 0) throw new Error('mergeScanInputs needs at least one wallet');
+  if (inputs.length === 1) return inputs[0];
+  const [primary, ...linked] = inputs;
+
+  return {
+    address: primary.address,
+    network: primary.network,
+    linkedAddresses: linked.map((input) => input.address),
+    balanceLamports: inputs.reduce((sum, input) => sum + input.balanceLamports, 0),
+    signatures: dedupeBy(inputs.flatMap((input) => input.signatures), (s) => s.signature).sort(
+      (a, b) => (b.blockTime ?? 0) - (a.blockTime ?? 0)
+    ),
+    assets: mergeAssets(inputs.map((input) => input.assets)),
+    tokenHoldings: mergeTokenHoldings(inputs.map((input) => input.tokenHoldings)),
+    // A stake account can name one linked wallet as staker and another as withdrawer
+    stakeAccounts: mergeNullable(
+      inputs.map((input) => input.stakeAccounts ?? null),
+      (present) => dedupeBy(present.flat(), (a) => a.address)
+    ),
+    defiPositions: mergeNullable(
+      inputs.map((input) => input.defiPositions),
+      (present) => {
+        const merged: Record<string, string[]> = {};
+        present.forEach((positions) =>
+          Object.entries(positions).forEach(([protocol, accounts]) => {
+            merged[protocol] = Array.from(new Set([...(merged[protocol] ?? []), ...accounts]));
+          })
+        );
+        return merged;
+      }
+    ),
+    dasStats: mergeNullable(
+      inputs.map((input) => input.dasStats),
+      (present) => ({
+        pagesFetched: present.reduce((sum, s) => sum + s.pagesFetched, 0),
+        itemsFetched: present.reduce((sum, s) => sum + s.itemsFetched, 0),
+        duplicatesDropped: present.reduce((sum, s) => sum + s.duplicatesDropped, 0),
+        reportedTotal: present.every((s) => s.reportedTotal !== null)
+          ? present.reduce((sum, s) => sum + s.reportedTotal, 0)
+          : null,
+        complete: present.every((s) => s.complete),
+      })
+    ),
+    truncatedSources: Array.from(new Set(inputs.flatMap((input) => input.truncatedSources))),
+    firstActivity: oldestFirstActivity(inputs),
+    transactions: mergeNullable(
+      inputs.map((input) => input.transactions ?? null),
+      (present) => dedupeBy(present.flat(), (tx) => tx.signature).sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0))
+    ),
+    prices: mergeNullable(
+      inputs.map((input) => input.prices ?? null),
+      (present) => ({
+        usd: Object.assign({}, ...present.map((snapshot) => snapshot.usd)),
+        fetchedAt: Math.min(...present.map((snapshot) => snapshot.fetchedAt)),
+        source: present[0].source,
+      })
+    ),
+  };
+}
+
+function combinedCacheStatus(statuses: CacheStatus[]): CacheStatus {
+  if (statuses.every((status) => status === 'hit')) return 'hit';
+  return statuses.includes('miss') ? 'miss' : 'refreshed';
+}
+
+/**
+ * Scans each wallet through the cache, one after another so they do not
+ * compete for rate limits, then scores the merged inputs once. The first
+ * address is the identity's primary wallet.
+ */
+export async function scanLinkedIdentity(
+  addresses: string[],
+  provider: ChainDataProvider,
+  options: CachedScanOptions = {}
+): Promise<LinkedIdentityScanResult> {
+  const { onProgress, ...cacheOptions } = options;
+  if (addresses.length === 1) {
+    const result = await scanWalletCached(addresses[0], provider, options);
+    return { ...result, wallets: [{ address: result.address, score: result.score, traits: result.traits }] };
+  }
+
+  const results = [];
+  for (const [index, address] of addresses.entries()) {
+    onProgress?.({ stage: 'wallet', index, total: addresses.length, address });
+    results.push(
+      await scanWalletCached(address, provider, {
+        ...cacheOptions,
+        // Scoring and completion are reported once, for the merged identity
+        onProgress: (event) => {
+          if (event.stage !== 'scoring' && event.stage !== 'done') onProgress?.(event);
+        },
+      })
+    );
+  }
+
+  onProgress?.({ stage: 'scoring' });
+  const merged = await analyzeScanInputs(mergeScanInputs(results.map((result) => result.inputs)), provider);
+  onProgress?.({ stage: 'done' });
+  return {
+    ...merged,
+    cacheStatus: combinedCacheStatus(results.map((result) => result.cacheStatus)),
+    wallets: results.map((result) => ({ address: result.address, score: result.score, traits: result.traits })),
+  };
+}
@@ -0,0 +1,92 @@
+import { LOG_CONFIG } from '@/constants';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type ConsoleLogLevel = LogLevel | 'silent';
+export type LogNamespace = 'scan' | 'das' | 'scoring' | 'mint' | 'render';
+
+export interface LogEntry {
+  id: number;
+  /** Unix milliseconds. */
+  time: number;
+  namespace: LogNamespace;
+  level: LogLevel;
+  message: string;
+  /** Structured detail; must survive structured cloning so worker entries can be forwarded. */
+  data?: unknown;
+}
+
+export interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+}
+
+export type LogListener = (entry: LogEntry) => void;
+
+const LEVEL_RANK: Record<ConsoleLogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+const NAMESPACE_COLORS: Record<LogNamespace, string> = {
+  scan: '#22d3ee',
+  das: '#fbbf24',
+  scoring: '#a855f7',
+  mint: '#10b981',
+  render: '#f472b6',
+};
+
+const buffer: LogEntry[] = [];
+const listeners = new Set<LogListener>();
+let nextEntryId = 1;
+let consoleLevel: ConsoleLogLevel = LEVEL_RANK[LOG_CONFIG.LEVEL as ConsoleLogLevel] !== undefined
+  ? (LOG_CONFIG.LEVEL as ConsoleLogLevel)
+  : 'silent';
+
+/** Entries below `level` stay out of the console; they are still buffered for the debug drawer. */
+export function setConsoleLogLevel(level: ConsoleLogLevel) {
+  consoleLevel = level;
+}
+
+export function getConsoleLogLevel(): ConsoleLogLevel {
+  return consoleLevel;
+}
+
+function writeToConsole(entry: LogEntry) {
+  if (LEVEL_RANK[entry.level] < LEVEL_RANK[consoleLevel]) return;
+  const args: unknown[] = [`%c[${entry.namespace}]%c ${entry.message}`, `color: ${NAMESPACE_COLORS[entry.namespace]}; font-weight: bold;`, ''];
+  if (entry.data !== undefined) args.push(entry.data);
+  console[entry.level](...args);
+}
+
+/**
+ * Adds an entry to the buffer, the console and every listener. Loggers call
+ * this; the worker client also replays entries logged inside the worker.
+ */
+export function recordLogEntry(entry: Omit<LogEntry, 'id'>) {
+  const recorded: LogEntry = { ...entry, id: nextEntryId++ };
+  buffer.push(recorded);
+  if (buffer.length > LOG_CONFIG.BUFFER_SIZE) buffer.splice(0, buffer.length - LOG_CONFIG.BUFFER_SIZE);
+  writeToConsole(recorded);
+  listeners.forEach((listener) => listener(recorded));
+}
+
+/** The newest `LOG_CONFIG.BUFFER_SIZE` entries, oldest first. */
+export function getLogEntries(): LogEntry[] {
+  return buffer.slice();
+}
+
+export function clearLogEntries() {
+  buffer.length = 0;
+}
+
+export function subscribeToLogs(listener: LogListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function createLogger(namespace: LogNamespace): Logger {
+  const log = (level: LogLevel) => (message: string, data?: unknown) =>
+    recordLogEntry({ time: Date.now(), namespace, level, message, data });
+  return { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
+}
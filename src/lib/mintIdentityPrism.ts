@@ -1,40 +1,57 @@
 import { WalletContextState } from '@solana/wallet-adapter-react';
-import { Connection, PublicKey, SystemProgram, Transaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { PublicKey, SystemProgram, Transaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { Buffer } from 'buffer';
-import { HELIUS_CONFIG, MINT_CONFIG, TREASURY_ADDRESS } from '@/constants';
-import type { WalletTraits } from '@/hooks/useWalletData';
+import { MINT_CONFIG } from '@/constants';
+import { getChainDataProvider } from '@/lib/chainData';
+import { getNetwork } from '@/lib/network';
+import type { NetworkId } from '@/lib/network';
+import { createResilientConnection } from '@/lib/rpcClient';
+import type { ScoreBreakdown } from '@/lib/scoring';
+import type { WalletTraits } from '@/lib/walletScanner';
+import { createLogger } from '@/lib/logger';
+
+const mintLog = createLogger('mint');
 
 export interface MintMetadata {
   collection: string;
-  network: string;
+  network: NetworkId;
   score: number;
+  /** Every rule behind `score`, so anyone can re-add the points. */
+  scoreBreakdown: ScoreBreakdown;
   rarity: WalletTraits['rarityTier'];
   traits: {
     seeker: boolean;
     preorder: boolean;
     combo: boolean;
     blueChip: boolean;
+    blueChipCollections: string[];
     memeLord: boolean;
     defiKing: boolean;
     hyperactive: boolean;
     diamondHands: boolean;
+    staker: boolean;
   };
   stats: {
     tokens: number;
     nfts: number;
     transactions: number;
     solBalance: number;
+    portfolioUsd: number | null;
+    stakedSol: number;
     walletAgeYears: number;
   };
   timestamp: string;
   address: string;
+  /** Every proven wallet merged into the traits, the minting one included; empty for a single wallet. */
+  linkedWallets: string[];
 }
 
 export interface MintIdentityPrismArgs {
   wallet: WalletContextState;
   address: string;
   traits: WalletTraits;
-  score: number;
+  scoreBreakdown: ScoreBreakdown;
+  linkedWallets?: string[];
 }
 
 export interface MintIdentityPrismResult {
@@ -54,41 +71,51 @@ export async function mintIdentityPrism({
   wallet,
   address,
   traits,
-  score,
+  scoreBreakdown,
+  linkedWallets = [],
 }: MintIdentityPrismArgs): Promise<MintIdentityPrismResult> {
   if (!wallet || !wallet.publicKey || !wallet.sendTransaction) {
     throw new Error('Wallet not ready or does not support transactions');
   }
 
-  const connection = new Connection(HELIUS_CONFIG.RPC_URL, 'confirmed');
+  // The selected network decides where the payment goes; devnet and localnet pay in test SOL
+  const network = getNetwork();
+  if (!network.treasuryAddress) throw new Error(`No treasury is configured for ${network.label}`);
+  const connection = createResilientConnection(getChainDataProvider().rpcEndpoint, 'confirmed');
   const payer = wallet.publicKey;
-  const treasury = new PublicKey(TREASURY_ADDRESS);
+  const treasury = new PublicKey(network.treasuryAddress);
   const priceLamports = Math.round(MINT_CONFIG.PRICE_SOL * LAMPORTS_PER_SOL);
 
   const metadata: MintMetadata = {
     collection: MINT_CONFIG.COLLECTION,
-    network: MINT_CONFIG.NETWORK,
-    score,
+    network: network.id,
+    score: scoreBreakdown.total,
+    scoreBreakdown,
     rarity: traits.rarityTier,
     traits: {
       seeker: traits.hasSeeker,
       preorder: traits.hasPreorder,
       combo: traits.hasCombo,
-      blueChip: traits.isBlueChip,
+      blueChip: traits.blueChipCollections.length > 0,
+      blueChipCollections: traits.blueChipCollections.map((collection) => collection.name),
       memeLord: traits.isMemeLord,
       defiKing: traits.isDeFiKing,
       hyperactive: traits.hyperactiveDegen,
       diamondHands: traits.diamondHands,
+      staker: traits.isStaker,
     },
     stats: {
       tokens: traits.uniqueTokenCount,
       nfts: traits.nftCount,
       transactions: traits.txCount,
       solBalance: traits.solBalance,
+      portfolioUsd: traits.portfolioUsd === null ? null : Math.round(traits.portfolioUsd),
+      stakedSol: traits.stakedSol,
       walletAgeYears: Math.floor(traits.walletAgeDays / 365),
     },
     timestamp: new Date().toISOString(),
     address,
+    linkedWallets,
   };
 
   const transferIx = SystemProgram.transfer({
@@ -98,8 +125,10 @@ export async function mintIdentityPrism({
   });
 
   const transaction = new Transaction().add(transferIx);
+  mintLog.debug(`Requesting ${MINT_CONFIG.PRICE_SOL} SOL payment from ${payer.toBase58()} on ${network.label}`, metadata);
   
   const signature = await wallet.sendTransaction(transaction, connection);
+  mintLog.info(`Payment sent: ${signature}`);
   
   const latestBlockhash = await connection.getLatestBlockhash('finalized');
   await connection.confirmTransaction(
@@ -110,6 +139,7 @@ export async function mintIdentityPrism({
     },
     'confirmed'
   );
+  mintLog.info(`Payment confirmed: ${signature}`);
 
   return {
     signature,
@@ -0,0 +1,112 @@
+import { NETWORK_CONFIG } from '@/constants';
+import { createLogger } from '@/lib/logger';
+
+export type NetworkId = keyof typeof NETWORK_CONFIG.CLUSTERS;
+
+/** Addresses of the OG items traits look for; null on clusters where they do not exist. */
+export type TokenAddresses = Record<keyof (typeof NETWORK_CONFIG.CLUSTERS)['mainnet-beta']['TOKEN_ADDRESSES'], string | null>;
+
+/** A cluster and how the app reaches it. */
+export interface SolanaNetwork {
+  id: NetworkId;
+  label: string;
+  /** Plain JSON-RPC endpoint; for localnet this is the custom URL when one is set. */
+  rpcUrl: string;
+  /** Null where Helius does not run; scans there use plain RPC. */
+  heliusRpcUrl: string | null;
+  heliusRestUrl: string | null;
+  /** Receives the mint payment; null when none is configured, which blocks minting. */
+  treasuryAddress: string | null;
+  tokenAddresses: TokenAddresses;
+}
+
+export type NetworkListener = (network: SolanaNetwork) => void;
+
+interface StoredNetwork {
+  id: NetworkId;
+  rpcUrl?: string;
+}
+
+export const NETWORK_IDS = Object.keys(NETWORK_CONFIG.CLUSTERS) as NetworkId[];
+
+const scanLog = createLogger('scan');
+
+const listeners = new Set<NetworkListener>();
+let current: SolanaNetwork | null = null;
+
+export function isNetworkId(value: unknown): value is NetworkId {
+  return typeof value === 'string' && NETWORK_IDS.includes(value as NetworkId);
+}
+
+/** Token addresses traits are matched against on `id`; mainnet when unknown. */
+export function getTokenAddresses(id: NetworkId = 'mainnet-beta'): TokenAddresses {
+  return (NETWORK_CONFIG.CLUSTERS[id] ?? NETWORK_CONFIG.CLUSTERS['mainnet-beta']).TOKEN_ADDRESSES;
+}
+
+/** Throws unless `url` is an absolute http(s) URL. */
+export function assertRpcUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Not a valid RPC URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('RPC URLs must start with http:// or https://');
+  }
+}
+
+/** `customRpcUrl` only applies to localnet, which stands for any self-hosted validator. */
+export function resolveNetwork(id: NetworkId, customRpcUrl?: string): SolanaNetwork {
+  const cluster = NETWORK_CONFIG.CLUSTERS[id];
+  return {
+    id,
+    label: cluster.LABEL,
+    rpcUrl: (id === 'localnet' && customRpcUrl) || cluster.RPC_URL,
+    heliusRpcUrl: cluster.HELIUS_RPC_URL,
+    heliusRestUrl: cluster.HELIUS_REST_URL,
+    treasuryAddress: cluster.TREASURY_ADDRESS,
+    tokenAddresses: cluster.TOKEN_ADDRESSES,
+  };
+}
+
+function readStoredNetwork(): SolanaNetwork {
+  const fallback = isNetworkId(NETWORK_CONFIG.DEFAULT) ? NETWORK_CONFIG.DEFAULT : 'mainnet-beta';
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(NETWORK_CONFIG.STORAGE_KEY) : null;
+    if (!raw) return resolveNetwork(fallback);
+    const stored = JSON.parse(raw) as Partial<StoredNetwork>;
+    return isNetworkId(stored.id) ? resolveNetwork(stored.id, stored.rpcUrl) : resolveNetwork(fallback);
+  } catch (error) {
+    scanLog.warn('Stored network selection unreadable, using the default', error);
+    return resolveNetwork(fallback);
+  }
+}
+
+/** The selected network; `VITE_SOLANA_NETWORK` until the user picks another. */
+export function getNetwork(): SolanaNetwork {
+  if (!current) current = readStoredNetwork();
+  return current;
+}
+
+/** Selects and remembers a network. Throws on a malformed custom RPC URL. */
+export function setNetwork(id: NetworkId, customRpcUrl?: string) {
+  if (id === 'localnet' && customRpcUrl) assertRpcUrl(customRpcUrl);
+  const stored: StoredNetwork = id === 'localnet' && customRpcUrl ? { id, rpcUrl: customRpcUrl } : { id };
+  current = resolveNetwork(stored.id, stored.rpcUrl);
+  try {
+    localStorage.setItem(NETWORK_CONFIG.STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    scanLog.warn('Network selection write failed; it lasts until reload', error);
+  }
+  scanLog.info(`Network set to ${current.label} (${current.rpcUrl})`);
+  const selected = current;
+  listeners.forEach((listener) => listener(selected));
+}
+
+export function subscribeToNetwork(listener: NetworkListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,92 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { PublicKey } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import { IDENTITY_CONFIG } from '@/constants';
+import { createLogger } from '@/lib/logger';
+
+/** A wallet's signature over a challenge naming the identity it joins. */
+export interface OwnershipProof {
+  address: string;
+  identityId: string;
+  message: string;
+  /** Base64 ed25519 signature over the UTF-8 bytes of `message`. */
+  signature: string;
+  /** Unix milliseconds the challenge was issued. */
+  issuedAt: number;
+}
+
+export type SignMessage = (message: Uint8Array) => Promise<Uint8Array>;
+
+const scanLog = createLogger('scan');
+
+const CHALLENGE_PREFIX = 'Identity Prism wallet link';
+
+function randomNonce(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Buffer.from(bytes).toString('hex');
+}
+
+/** The text a wallet signs; it names the wallet and the identity so a proof cannot be replayed for another. */
+export function createOwnershipChallenge(address: string, identityId: string, issuedAt: number = Date.now()): string {
+  return [
+    CHALLENGE_PREFIX,
+    '',
+    'Sign to prove you own this wallet and link it to your identity. This costs nothing and sends no transaction.',
+    '',
+    `Wallet: ${address}`,
+    `Identity: ${identityId}`,
+    `Nonce: ${randomNonce()}`,
+    `Issued At: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+}
+
+function challengeField(message: string, field: string): string | null {
+  const line = message.split('\n').find((l) => l.startsWith(`${field}: `));
+  return line ? line.slice(field.length + 2) : null;
+}
+
+/** Asks the wallet to sign a fresh challenge. Throws when the wallet cannot sign messages. */
+export async function requestOwnershipProof(
+  address: string,
+  identityId: string,
+  signMessage: SignMessage | undefined
+): Promise<OwnershipProof> {
+  if (!signMessage) throw new Error('This wallet cannot sign messages');
+  const issuedAt = Date.now();
+  const message = createOwnershipChallenge(address, identityId, issuedAt);
+  const signature = await signMessage(new TextEncoder().encode(message));
+  return { address, identityId, message, signature: Buffer.from(signature).toString('base64'), issuedAt };
+}
+
+/**
+ * Checks the Ed25519 signature and that the message is a challenge for this
+ * wallet and identity. Verification is pure JS: WebCrypto Ed25519 is missing
+ * from several browsers and in-wallet WebViews, and stored links must keep
+ * verifying there. `maxAgeMs` also refuses stale
+ * challenges; leave it out when re-checking proofs that were stored earlier.
+ */
+export async function verifyOwnershipProof(proof: OwnershipProof, maxAgeMs?: number, now: number = Date.now()): Promise<boolean> {
+  if (!proof.message.startsWith(CHALLENGE_PREFIX)) return false;
+  if (challengeField(proof.message, 'Wallet') !== proof.address) return false;
+  if (challengeField(proof.message, 'Identity') !== proof.identityId) return false;
+  // The signed text is the authority on when it was issued
+  if (Date.parse(challengeField(proof.message, 'Issued At') ?? '') !== proof.issuedAt) return false;
+  if (maxAgeMs !== undefined && now - proof.issuedAt > maxAgeMs) return false;
+
+  try {
+    return ed25519.verify(
+      Buffer.from(proof.signature, 'base64'),
+      new TextEncoder().encode(proof.message),
+      new PublicKey(proof.address).toBytes()
+    );
+  } catch (error) {
+    scanLog.warn('Ownership proof verification failed', error);
+    return false;
+  }
+}
+
+/** `verifyOwnershipProof` with the link-time challenge age limit. */
+export function verifyFreshOwnershipProof(proof: OwnershipProof, now: number = Date.now()): Promise<boolean> {
+  return verifyOwnershipProof(proof, IDENTITY_CONFIG.CHALLENGE_TTL_MS, now);
+}
@@ -0,0 +1,97 @@
+import { LST_MINTS, MEME_COIN_MINTS, SOL_MINT, STABLECOIN_MINTS } from '@/constants';
+import type { DASAsset, TokenHolding } from '@/lib/walletScanner';
+
+/** A fungible balance, in whole tokens. */
+export interface FungibleBalance {
+  mint: string;
+  symbol: string | null;
+  amount: number;
+}
+
+export interface ValuedHolding extends FungibleBalance {
+  usd: number;
+}
+
+export interface PortfolioValuation {
+  /** Sum of every priced holding, SOL included. */
+  totalUsd: number;
+  /** Priced holdings, most valuable first. */
+  holdings: ValuedHolding[];
+  /** Balances no price source had a price for; they count as zero. */
+  unpricedCount: number;
+}
+
+const KNOWN_SYMBOLS: Record<string, string> = {
+  [SOL_MINT]: 'SOL',
+  ...Object.fromEntries(
+    [STABLECOIN_MINTS, LST_MINTS, MEME_COIN_MINTS].flatMap((mints) =>
+      Object.entries(mints).map(([symbol, mint]) => [mint, symbol])
+    )
+  ),
+};
+
+export function isFungibleAsset(asset: { interface?: string; token_info?: { supply?: number; decimals?: number } }): boolean {
+  const iface = (asset.interface || '').toUpperCase();
+  if (iface === 'FUNGIBLETOKEN' || iface === 'FUNGIBLEASSET') return true;
+  const supply = asset.token_info?.supply || 0;
+  const decimals = asset.token_info?.decimals || 0;
+  return decimals > 0 || supply > 1;
+}
+
+function assetUiAmount(asset: DASAsset): number {
+  const tokenInfo = asset.token_info || {};
+  const raw = tokenInfo.balance ?? tokenInfo.amount ?? 0;
+  const numeric = typeof raw === 'number' ? raw : parseFloat(raw || '0');
+  const decimals = tokenInfo.decimals ?? 0;
+  return decimals > 0 ? numeric / Math.pow(10, decimals) : numeric;
+}
+
+/**
+ * Every fungible balance the wallet holds, native SOL included. Token-account
+ * balances win over DAS balances for the same mint since they are read
+ * per account; DAS fills in mints the token-account listing missed.
+ */
+export function collectFungibleBalances(solBalance: number, assets: DASAsset[], holdings: TokenHolding[]): FungibleBalance[] {
+  const byMint = new Map<string, FungibleBalance>();
+  const symbolOf = (mint: string, asset?: DASAsset) =>
+    KNOWN_SYMBOLS[mint] ?? asset?.content?.metadata?.symbol ?? null;
+  const assetsById = new Map(assets.map((a) => [a.id, a]));
+
+  holdings.forEach((holding) => {
+    if (holding.uiAmount <= 0 || holding.decimals === 0) return;
+    byMint.set(holding.mint, { mint: holding.mint, symbol: symbolOf(holding.mint, assetsById.get(holding.mint)), amount: holding.uiAmount });
+  });
+  assets.forEach((asset) => {
+    if (byMint.has(asset.id) || !isFungibleAsset(asset)) return;
+    const amount = assetUiAmount(asset);
+    if (amount > 0) byMint.set(asset.id, { mint: asset.id, symbol: symbolOf(asset.id, asset), amount });
+  });
+
+  // Wrapped SOL in a token account adds to the native balance
+  const wrapped = byMint.get(SOL_MINT)?.amount ?? 0;
+  byMint.set(SOL_MINT, { mint: SOL_MINT, symbol: 'SOL', amount: solBalance + wrapped });
+  // Well-known mints first, so a cap on how many get priced drops the obscure ones
+  return Array.from(byMint.values())
+    .filter((b) => b.amount > 0)
+    .sort((a, b) => Number(b.mint in KNOWN_SYMBOLS) - Number(a.mint in KNOWN_SYMBOLS));
+}
+
+export function valuePortfolio(balances: FungibleBalance[], usdPrices: Record<string, number>): PortfolioValuation {
+  let totalUsd = 0;
+  let unpricedCount = 0;
+  const holdings: ValuedHolding[] = [];
+
+  balances.forEach((balance) => {
+    const price = usdPrices[balance.mint];
+    if (typeof price !== 'number') {
+      unpricedCount++;
+      return;
+    }
+    const usd = balance.amount * price;
+    totalUsd += usd;
+    holdings.push({ ...balance, usd });
+  });
+
+  holdings.sort((a, b) => b.usd - a.usd);
+  return { totalUsd, holdings, unpricedCount };
+}
@@ -0,0 +1,135 @@
+import { CHAIN_DATA_CONFIG, PRICE_CONFIG, STATIC_TOKEN_PRICES } from '@/constants';
+import { createResilientFetch } from '@/lib/rpcClient';
+import { createLogger } from '@/lib/logger';
+
+const scanLog = createLogger('scan');
+
+export type PriceSourceId = 'jupiter' | 'static';
+
+/** USD prices for a set of mints, as of `fetchedAt`. */
+export interface PriceSnapshot {
+  /** USD per whole token, by mint. Mints without a price are absent. */
+  usd: Record<string, number>;
+  /** Unix milliseconds of the oldest price in the snapshot. */
+  fetchedAt: number;
+  source: PriceSourceId;
+}
+
+export interface PriceSource {
+  id: PriceSourceId;
+  label: string;
+  getPrices(mints: string[]): Promise<PriceSnapshot>;
+}
+
+export interface StaticPriceSourceOptions {
+  /** When the prices were recorded; defaults to `STATIC_TOKEN_PRICES.AS_OF`. */
+  asOf?: number;
+  label?: string;
+}
+
+export interface LivePriceSourceOptions {
+  apiUrl?: string;
+  ttlMs?: number;
+  /** Answers for mints the live API could not price, or for all of them when it is down. */
+  fallback?: PriceSource;
+}
+
+/** Fixed prices, for offline development, fixtures and as a fallback. */
+export function createStaticPriceSource(
+  prices: Record<string, number> = STATIC_TOKEN_PRICES.USD,
+  options: StaticPriceSourceOptions = {}
+): PriceSource {
+  const asOf = options.asOf ?? Date.parse(STATIC_TOKEN_PRICES.AS_OF);
+  return {
+    id: 'static',
+    label: options.label ?? 'Static prices',
+    async getPrices(mints) {
+      const usd: Record<string, number> = {};
+      mints.forEach((mint) => {
+        if (typeof prices[mint] === 'number') usd[mint] = prices[mint];
+      });
+      return { usd, fetchedAt: asOf, source: 'static' };
+    },
+  };
+}
+
+/**
+ * Jupiter price API with a per-mint in-memory cache. Mints cached within
+ * `ttlMs` are not re-requested; mints the API has no price for are filled
+ * from `fallback`, which also answers everything if the API is unreachable.
+ */
+export function createLivePriceSource(options: LivePriceSourceOptions = {}): PriceSource {
+  const apiUrl = options.apiUrl ?? PRICE_CONFIG.API_URL;
+  const ttlMs = options.ttlMs ?? PRICE_CONFIG.TTL_MS;
+  const fetchPrices = createResilientFetch();
+  const cache = new Map<string, { usd: number; fetchedAt: number }>();
+
+  const requestBatch = async (mints: string[], now: number) => {
+    const response = await fetchPrices(`${apiUrl}?ids=${mints.join(',')}`);
+    if (!response.ok) throw new Error(`Price API returned ${response.status}`);
+    const body = (await response.json()) as Record<string, { usdPrice?: number } | null>;
+    mints.forEach((mint) => {
+      const usd = body[mint]?.usdPrice;
+      if (typeof usd === 'number') cache.set(mint, { usd, fetchedAt: now });
+    });
+  };
+
+  return {
+    id: 'jupiter',
+    label: 'Jupiter',
+    async getPrices(mints) {
+      const now = Date.now();
+      const stale = mints.filter((mint) => {
+        const cached = cache.get(mint);
+        return !cached || now - cached.fetchedAt >= ttlMs;
+      });
+
+      try {
+        for (let i = 0; i < stale.length; i += PRICE_CONFIG.MAX_IDS_PER_REQUEST) {
+          await requestBatch(stale.slice(i, i + PRICE_CONFIG.MAX_IDS_PER_REQUEST), now);
+        }
+      } catch (error) {
+        if (!options.fallback) throw error;
+        scanLog.warn('Live prices unavailable, using fallback', error);
+        return options.fallback.getPrices(mints);
+      }
+
+      const usd: Record<string, number> = {};
+      let fetchedAt = now;
+      const unpriced: string[] = [];
+      mints.forEach((mint) => {
+        const cached = cache.get(mint);
+        if (!cached) {
+          unpriced.push(mint);
+          return;
+        }
+        usd[mint] = cached.usd;
+        fetchedAt = Math.min(fetchedAt, cached.fetchedAt);
+      });
+
+      if (unpriced.length > 0 && options.fallback) {
+        const fallback = await options.fallback.getPrices(unpriced);
+        Object.assign(usd, fallback.usd);
+        if (Object.keys(fallback.usd).length > 0) fetchedAt = Math.min(fetchedAt, fallback.fetchedAt);
+      }
+      return { usd, fetchedAt, source: 'jupiter' };
+    },
+  };
+}
+
+/**
+ * Static prices when `VITE_PRICE_SOURCE=static` or scans come from fixtures
+ * (so fixture scores stay reproducible), live Jupiter prices otherwise.
+ */
+export function createDefaultPriceSource(): PriceSource {
+  const staticSource = createStaticPriceSource();
+  if (PRICE_CONFIG.SOURCE === 'static' || CHAIN_DATA_CONFIG.PROVIDER === 'fixture') return staticSource;
+  return createLivePriceSource({ fallback: staticSource });
+}
+
+let defaultPriceSource: PriceSource | null = null;
+
+export function getPriceSource(): PriceSource {
+  if (!defaultPriceSource) defaultPriceSource = createDefaultPriceSource();
+  return defaultPriceSource;
+}
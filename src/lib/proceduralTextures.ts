@@ -0,0 +1,283 @@
+/**
+ * Pixel painters for the procedural planet textures. They touch neither the
+ * DOM nor three.js, so they run the same on the main thread and in the
+ * render worker.
+ */
+
+export type TextureKind = 'terrestrial' | 'volcanic' | 'ice' | 'gas' | 'cloud' | 'moon';
+
+export const TEXTURE_SIZES: Record<TextureKind, number> = {
+  terrestrial: 512,
+  volcanic: 512,
+  ice: 512,
+  gas: 512,
+  cloud: 512,
+  moon: 128,
+};
+
+type Painter = (data: Uint8ClampedArray, width: number, height: number, seed: number) => void;
+
+// ============================================================================
+// PROCEDURAL TEXTURE GENERATION - Simplex Noise & FBM
+// ============================================================================
+
+function simplexNoise(x: number, y: number, seed: number): number {
+  const X = Math.floor(x) & 255;
+  const Y = Math.floor(y) & 255;
+  const hash = ((X * 374761393 + Y * 668265263 + seed) ^ (seed >> 13)) & 0xFFFFFFFF;
+  return ((hash * (hash * hash * 15731 + 789221) + 1376312589) & 0x7FFFFFFF) / 0x7FFFFFFF * 2 - 1;
+}
+
+function fbm(x: number, y: number, seed: number, octaves: number): number {
+  let value = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let maxValue = 0;
+  for (let i = 0; i < octaves; i++) {
+    value += simplexNoise(x * frequency, y * frequency, seed + i) * amplitude;
+    maxValue += amplitude;
+    amplitude *= 0.5;
+    frequency *= 2;
+  }
+  return value / maxValue;
+}
+
+// Oceans, continents, polar ice caps
+function paintTerrestrial(data: Uint8ClampedArray, width: number, height: number, seed: number) {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const nx = x / width;
+      const ny = y / height;
+      
+      const elevation = fbm(nx * 4, ny * 4, seed, 6) * 0.5 + 0.5;
+      const detail = fbm(nx * 16, ny * 16, seed + 100, 4) * 0.5 + 0.5;
+      const microDetail = fbm(nx * 32, ny * 32, seed + 200, 3) * 0.5 + 0.5;
+      
+      const landMask = elevation * 0.6 + detail * 0.3 + microDetail * 0.1;
+      
+      if (landMask > 0.5) {
+        const landType = detail;
+        if (landType > 0.6) {
+          // Forest
+          data[idx] = 45 + microDetail * 30;
+          data[idx + 1] = 90 + microDetail * 40;
+          data[idx + 2] = 39 + microDetail * 20;
+        } else if (landType > 0.4) {
+          // Plains
+          data[idx] = 90 + microDetail * 50;
+          data[idx + 1] = 110 + microDetail * 40;
+          data[idx + 2] = 60 + microDetail * 30;
+        } else {
+          // Desert/Mountains
+          data[idx] = 139 + microDetail * 40;
+          data[idx + 1] = 119 + microDetail * 30;
+          data[idx + 2] = 101 + microDetail * 20;
+        }
+      } else {
+        // Ocean
+        const depth = (0.5 - landMask) * 2;
+        data[idx] = 5 + depth * 20;
+        data[idx + 1] = 44 + depth * 40;
+        data[idx + 2] = 84 + depth * 60 + microDetail * 20;
+      }
+      
+      // Polar ice caps
+      if (ny < 0.1 || ny > 0.9) {
+        const iceFactor = ny < 0.1 ? (0.1 - ny) * 10 : (ny - 0.9) * 10;
+        data[idx] = data[idx] * (1 - iceFactor) + 255 * iceFactor;
+        data[idx + 1] = data[idx + 1] * (1 - iceFactor) + 255 * iceFactor;
+        data[idx + 2] = data[idx + 2] * (1 - iceFactor) + 255 * iceFactor;
+      }
+      
+      data[idx + 3] = 255;
+    }
+  }
+}
+
+// Craters, lava flows, rocky surface
+function paintVolcanic(data: Uint8ClampedArray, width: number, height: number, seed: number) {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const nx = x / width;
+      const ny = y / height;
+      
+      const craters = fbm(nx * 8, ny * 8, seed, 5) * 0.5 + 0.5;
+      const roughness = fbm(nx * 24, ny * 24, seed + 50, 4) * 0.5 + 0.5;
+      const lavaFlow = fbm(nx * 6, ny * 6, seed + 150, 3) * 0.5 + 0.5;
+      
+      let r = 45, g = 10, b = 0;
+      
+      if (craters < 0.3) {
+        const craterDepth = (0.3 - craters) * 3;
+        r *= (1 - craterDepth * 0.5);
+        g *= (1 - craterDepth * 0.5);
+        b *= (1 - craterDepth * 0.5);
+      }
+      
+      if (roughness > 0.6) {
+        const dustAmount = (roughness - 0.6) * 2.5;
+        r += dustAmount * 80;
+        g += dustAmount * 35;
+        b += dustAmount * 15;
+      }
+      
+      if (lavaFlow > 0.75) {
+        const lavaIntensity = (lavaFlow - 0.75) * 4;
+        r = Math.min(255, r + lavaIntensity * 200);
+        g = Math.min(255, g + lavaIntensity * 100);
+        b = Math.min(255, b + lavaIntensity * 50);
+      }
+      
+      data[idx] = Math.min(255, r + roughness * 20);
+      data[idx + 1] = Math.min(255, g + roughness * 10);
+      data[idx + 2] = Math.min(255, b + roughness * 5);
+      data[idx + 3] = 255;
+    }
+  }
+}
+
+// Glacial crevasses, frost, crystalline structure
+function paintIce(data: Uint8ClampedArray, width: number, height: number, seed: number) {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const nx = x / width;
+      const ny = y / height;
+      
+      const iceNoise = fbm(nx * 12, ny * 12, seed, 5) * 0.5 + 0.5;
+      const cracks = fbm(nx * 20, ny * 20, seed + 100, 4) * 0.5 + 0.5;
+      const frost = fbm(nx * 32, ny * 32, seed + 200, 3) * 0.5 + 0.5;
+      
+      let r = 186, g = 230, b = 253;
+      
+      if (cracks < 0.35) {
+        const crackDepth = (0.35 - cracks) * 2.85;
+        r = Math.max(100, r - crackDepth * 100);
+        g = Math.max(150, g - crackDepth * 100);
+        b = Math.max(200, b - crackDepth * 80);
+      }
+      
+      if (frost > 0.65) {
+        const snowAmount = (frost - 0.65) * 2.85;
+        r = r + (255 - r) * snowAmount;
+        g = g + (255 - g) * snowAmount;
+        b = b + (255 - b) * snowAmount;
+      }
+      
+      const crystalVariation = iceNoise * 30;
+      data[idx] = Math.min(255, r + crystalVariation);
+      data[idx + 1] = Math.min(255, g + crystalVariation);
+      data[idx + 2] = Math.min(255, b + crystalVariation);
+      data[idx + 3] = 255;
+    }
+  }
+}
+
+// Horizontal atmospheric bands with turbulence
+function paintGasGiant(data: Uint8ClampedArray, width: number, height: number, seed: number) {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const nx = x / width;
+      const ny = y / height;
+      
+      const bandNoise = fbm(nx * 2, ny * 12, seed, 4);
+      const turbulence = fbm(nx * 8, ny * 8, seed + 100, 3) * 0.1;
+      const distortedY = ny + turbulence;
+      
+      const bandValue = Math.sin(distortedY * 20 + bandNoise * 2) * 0.5 + 0.5;
+      const microTurbulence = fbm(nx * 16, ny * 16, seed + 200, 2) * 0.5 + 0.5;
+      
+      let r, g, b;
+      if (bandValue > 0.5) {
+        r = 245 * (0.8 + microTurbulence * 0.2);
+        g = 158 * (0.8 + microTurbulence * 0.2);
+        b = 11 * (0.8 + microTurbulence * 0.2);
+      } else {
+        r = 124 * (0.7 + microTurbulence * 0.3);
+        g = 45 * (0.7 + microTurbulence * 0.3);
+        b = 18 * (0.7 + microTurbulence * 0.3);
+      }
+      
+      const stormNoise = fbm(nx * 4, ny * 4, seed + 300, 3);
+      if (stormNoise > 0.7) {
+        const stormIntensity = (stormNoise - 0.7) * 3.3;
+        r = Math.min(255, r + stormIntensity * 100);
+        g = Math.min(255, g + stormIntensity * 80);
+        b = Math.min(255, b + stormIntensity * 60);
+      }
+      
+      data[idx] = Math.min(255, r);
+      data[idx + 1] = Math.min(255, g);
+      data[idx + 2] = Math.min(255, b);
+      data[idx + 3] = 255;
+    }
+  }
+}
+
+// Cloud layer for terrestrial planets (white, density in alpha)
+function paintClouds(data: Uint8ClampedArray, width: number, height: number, seed: number) {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const nx = x / width;
+      const ny = y / height;
+      
+      const clouds = fbm(nx * 6, ny * 6, seed, 5) * 0.5 + 0.5;
+      const wispy = fbm(nx * 12, ny * 12, seed + 100, 4) * 0.5 + 0.5;
+      
+      const cloudDensity = (clouds * 0.7 + wispy * 0.3);
+      const alpha = cloudDensity > 0.4 ? (cloudDensity - 0.4) * 1.67 : 0;
+      
+      data[idx] = 255;
+      data[idx + 1] = 255;
+      data[idx + 2] = 255;
+      data[idx + 3] = Math.min(255, alpha * 200);
+    }
+  }
+}
+
+// Craters for moons
+function paintMoon(data: Uint8ClampedArray, width: number, height: number, seed: number) {
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const nx = x / width;
+      const ny = y / height;
+      
+      const craters = fbm(nx * 10, ny * 10, seed, 5) * 0.5 + 0.5;
+      const detail = fbm(nx * 20, ny * 20, seed + 50, 4) * 0.5 + 0.5;
+      
+      let gray = 100 + detail * 50;
+      
+      if (craters < 0.35) {
+        const depth = (0.35 - craters) * 2.5;
+        gray = Math.max(40, gray - depth * 80);
+      }
+      
+      data[idx] = gray;
+      data[idx + 1] = gray;
+      data[idx + 2] = gray;
+      data[idx + 3] = 255;
+    }
+  }
+}
+
+const PAINTERS: Record<TextureKind, Painter> = {
+  terrestrial: paintTerrestrial,
+  volcanic: paintVolcanic,
+  ice: paintIce,
+  gas: paintGasGiant,
+  cloud: paintClouds,
+  moon: paintMoon,
+};
+
+/** Paints `kind` onto a 2D context, DOM or offscreen, whose canvas is `TEXTURE_SIZES[kind]` square. */
+export function drawTexture(ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, kind: TextureKind, seed: number) {
+  const size = TEXTURE_SIZES[kind];
+  const imageData = ctx.createImageData(size, size);
+  PAINTERS[kind](imageData.data, size, size, seed);
+  ctx.putImageData(imageData, 0, 0);
+}
@@ -0,0 +1,136 @@
+import { Commitment, Connection } from '@solana/web3.js';
+import { RPC_CONFIG } from '@/constants';
+import { createLogger } from '@/lib/logger';
+
+const scanLog = createLogger('scan');
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface ResilientFetchOptions {
+  policy?: RetryPolicy;
+  /** Shared limiter; requests beyond its capacity wait for a free slot. */
+  limiter?: RequestLimiter;
+}
+
+export type RequestLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: RPC_CONFIG.MAX_RETRIES,
+  baseDelayMs: RPC_CONFIG.BASE_DELAY_MS,
+  maxDelayMs: RPC_CONFIG.MAX_DELAY_MS,
+};
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export function createRequestLimiter(maxConcurrent: number): RequestLimiter {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const release = () => {
+    active--;
+    queue.shift()?.();
+  };
+
+  return async (task) => {
+    if (active >= maxConcurrent) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
+
+/** `Retry-After` as milliseconds; accepts both delta-seconds and HTTP-date forms. */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Exponential backoff with full jitter. */
+export function computeBackoffMs(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * `fetch` that retries network errors, 429 and 5xx responses with backoff,
+ * waits at least as long as `Retry-After` asks, and runs through `limiter`.
+ * The last response is returned as-is so callers keep their own status handling.
+ */
+export function createResilientFetch(options: ResilientFetchOptions = {}): typeof fetch {
+  const policy = options.policy ?? DEFAULT_RETRY_POLICY;
+  const limiter = options.limiter ?? createRequestLimiter(RPC_CONFIG.MAX_CONCURRENT_REQUESTS);
+
+  return async (input, init) => {
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= policy.maxRetries;
+      let response: Response;
+      try {
+        response = await limiter(() => fetch(input, init));
+      } catch (error) {
+        if (isLastAttempt || init?.signal?.aborted) throw error;
+        const delay = computeBackoffMs(attempt, policy);
+        scanLog.warn(`RPC network error, retry ${attempt + 1}/${policy.maxRetries} in ${delay}ms`, error);
+        await sleep(delay);
+        continue;
+      }
+
+      if (!RETRYABLE_STATUS.has(response.status) || isLastAttempt) return response;
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      const delay = Math.max(retryAfter ?? 0, computeBackoffMs(attempt, policy));
+      scanLog.warn(`RPC HTTP ${response.status}, retry ${attempt + 1}/${policy.maxRetries} in ${delay}ms`);
+      await sleep(delay);
+    }
+  };
+}
+
+/**
+ * Connection whose HTTP traffic goes through `createResilientFetch`. web3.js's
+ * own 429 loop is disabled so the two retry layers do not multiply.
+ */
+export function createResilientConnection(
+  endpoint: string,
+  commitment: Commitment = 'confirmed',
+  options: ResilientFetchOptions = {}
+): Connection {
+  return new Connection(endpoint, {
+    commitment,
+    fetch: createResilientFetch(options),
+    disableRetryOnRateLimit: true,
+  });
+}
+
+// JSON-RPC codes for a method the node will not run: not found, or an account
+// index the operator excluded (the public endpoints' answer to most getProgramAccounts)
+const REJECTED_RPC_CODES = new Set([-32601, -32010]);
+// HTTP statuses that refuse the request outright; 429 is not one: a rate limit
+// that outlasts the retries cuts the data short, it does not rule it out
+const REJECTED_HTTP_STATUS = new Set([403, 410]);
+
+/**
+ * Whether `error` (after retries) means the endpoint does not serve the
+ * request at all, rather than failing it this time. Data behind such a
+ * request is unavailable from this provider, not cut short. Only structured
+ * fields are read (the JSON-RPC `code`, an HTTP `status`); anything else
+ * counts as a failure.
+ */
+export function isRpcMethodRejected(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const { code, status } = error as Error & { code?: unknown; status?: unknown };
+  if (typeof code === 'number' && REJECTED_RPC_CODES.has(code)) return true;
+  return typeof status === 'number' && REJECTED_HTTP_STATUS.has(status);
+}
@@ -0,0 +1,96 @@
+import { SCAN_CACHE_CONFIG } from '@/constants';
+import { fetchScanInputs, refreshScanInputs } from '@/lib/walletScanner';
+import type { ScanInputs, ScanOptions, WalletScanResult } from '@/lib/walletScanner';
+import type { ChainDataProvider } from '@/lib/chainData';
+import { createPersistentStore } from '@/lib/keyValueStore';
+import type { KeyValueStore } from '@/lib/keyValueStore';
+import { analyzeScanInputs } from '@/lib/worker';
+import { createLogger } from '@/lib/logger';
+
+export interface ScanCacheEntry {
+  key: string;
+  address: string;
+  providerId: string;
+  inputs: ScanInputs;
+  storedAt: number;
+}
+
+export type ScanCacheStore = KeyValueStore<ScanCacheEntry>;
+
+export type CacheStatus = 'hit' | 'refreshed' | 'miss';
+
+export interface CachedScanResult extends WalletScanResult {
+  cacheStatus: CacheStatus;
+}
+
+export interface CachedScanOptions extends ScanOptions {
+  store?: ScanCacheStore;
+  ttlMs?: number;
+  /** Skip the TTL check and refresh even a fresh entry. */
+  forceRefresh?: boolean;
+}
+
+const scanLog = createLogger('scan');
+
+export function getScanCacheKey(address: string, providerId: string, network: string): string {
+  return `${network}:${providerId}:${address}`;
+}
+
+let defaultStore: ScanCacheStore | null = null;
+
+export function getDefaultScanCacheStore(): ScanCacheStore {
+  if (!defaultStore) {
+    defaultStore = createPersistentStore<ScanCacheEntry>('scans');
+  }
+  return defaultStore;
+}
+
+async function readEntry(store: ScanCacheStore, key: string): Promise<ScanCacheEntry | undefined> {
+  try {
+    return await store.get(key);
+  } catch (error) {
+    scanLog.warn('Scan cache read failed, scanning from scratch', error);
+    return undefined;
+  }
+}
+
+/**
+ * `scanWallet` with a persistent cache. A fresh entry is re-scored without
+ * touching the network; a stale one is refreshed incrementally; a miss runs a
+ * full scan. Cache failures never fail the scan.
+ */
+export async function scanWalletCached(
+  address: string,
+  provider: ChainDataProvider,
+  options: CachedScanOptions = {}
+): Promise<CachedScanResult> {
+  const { store = getDefaultScanCacheStore(), ttlMs = SCAN_CACHE_CONFIG.TTL_MS, forceRefresh = false, ...scanOptions } = options;
+  const key = getScanCacheKey(address, provider.id, provider.network);
+  const now = Date.now();
+  const cached = await readEntry(store, key);
+
+  if (cached && !forceRefresh && now - cached.storedAt < ttlMs) {
+    scanLog.info(`Cache hit for ${address} (${Math.round((now - cached.storedAt) / 60000)}m old)`);
+    scanOptions.onProgress?.({ stage: 'scoring' });
+    const result = await analyzeScanInputs(cached.inputs, provider, now);
+    scanOptions.onProgress?.({ stage: 'done' });
+    return { ...result, cacheStatus: 'hit' };
+  }
+
+  scanLog.info(cached ? `Refreshing stale cache entry for ${address} via ${provider.label}` : `Scanning ${address} via ${provider.label}`);
+  const inputs = cached
+    ? await refreshScanInputs(cached.inputs, provider, scanOptions)
+    : await fetchScanInputs(address, provider, scanOptions);
+
+  // Partial data is not worth serving for a whole TTL; the next visit rescans
+  if (inputs.truncatedSources.length === 0) {
+    store
+      .put(key, { key, address, providerId: provider.id, inputs, storedAt: now })
+      .catch((error) => scanLog.warn('Scan cache write failed', error));
+  }
+
+  scanOptions.onProgress?.({ stage: 'scoring' });
+  const result = await analyzeScanInputs(inputs, provider, now);
+  scanOptions.onProgress?.({ stage: 'done' });
+  return { ...result, cacheStatus: cached ? 'refreshed' : 'miss' };
+}
@@ -0,0 +1,127 @@
+import type { ScanProgressEvent } from '@/lib/walletScanner';
+
+/** Folded view of the progress events a scan has emitted so far. */
+export interface ScanProgressState {
+  startedAt: number;
+  updatedAt: number;
+  signatures: { page: number; maxPages: number; fetched: number; done: boolean };
+  das: { page: number; assets: number; done: boolean };
+  spl: { completed: number; total: number };
+  transactions: { fetched: number; total: number; done: boolean };
+  /** Which wallet of a linked identity is being fetched; the stages above are for that wallet. */
+  wallets: { index: number; total: number };
+  scoring: boolean;
+  done: boolean;
+  lastStage: ScanProgressEvent['stage'] | null;
+}
+
+// Rough share of wall-clock time each stage takes on a typical wallet
+const STAGE_WEIGHTS = { signatures: 0.4, das: 0.3, spl: 0.1, transactions: 0.1, scoring: 0.1 } as const;
+// Below this much progress an ETA is mostly noise
+const MIN_FRACTION_FOR_ESTIMATE = 0.08;
+
+export function createScanProgressState(now: number = Date.now()): ScanProgressState {
+  return {
+    startedAt: now,
+    updatedAt: now,
+    signatures: { page: 0, maxPages: 10, fetched: 0, done: false },
+    das: { page: 0, assets: 0, done: false },
+    spl: { completed: 0, total: 2 },
+    transactions: { fetched: 0, total: 0, done: false },
+    wallets: { index: 0, total: 1 },
+    scoring: false,
+    done: false,
+    lastStage: null,
+  };
+}
+
+export function applyScanProgressEvent(
+  state: ScanProgressState,
+  event: ScanProgressEvent,
+  now: number = Date.now()
+): ScanProgressState {
+  const next: ScanProgressState = { ...state, updatedAt: now, lastStage: event.stage };
+  switch (event.stage) {
+    case 'signatures':
+      next.signatures = { page: event.page, maxPages: event.maxPages, fetched: event.fetched, done: event.done };
+      break;
+    case 'das':
+      next.das = {
+        page: event.page,
+        assets: event.stats ? event.stats.itemsFetched - event.stats.duplicatesDropped : 0,
+        done: event.done,
+      };
+      break;
+    case 'spl':
+      next.spl = { completed: event.completed, total: event.total };
+      break;
+    case 'transactions':
+      next.transactions = { fetched: event.fetched, total: event.total, done: event.done };
+      break;
+    case 'wallet':
+      // Each wallet walks every fetch stage again
+      return {
+        ...createScanProgressState(state.startedAt),
+        updatedAt: now,
+        lastStage: event.stage,
+        wallets: { index: event.index, total: event.total },
+      };
+    case 'scoring':
+      next.scoring = true;
+      break;
+    case 'done':
+      next.done = true;
+      break;
+  }
+  return next;
+}
+
+/** Overall completion in [0, 1]. */
+export function getScanProgressFraction(state: ScanProgressState): number {
+  if (state.done) return 1;
+  const signatures = state.signatures.done ? 1 : state.signatures.page / state.signatures.maxPages;
+  // The DAS listing length is unknown up front, so each page closes half the remaining gap
+  const das = state.das.done ? 1 : 1 - Math.pow(0.5, state.das.page);
+  const spl = state.spl.total > 0 ? state.spl.completed / state.spl.total : 1;
+  const transactions = state.transactions.done ? 1 : state.transactions.total > 0 ? state.transactions.fetched / state.transactions.total : 0;
+  const scoring = state.scoring ? 0.5 : 0;
+
+  const fetched =
+    signatures * STAGE_WEIGHTS.signatures +
+    das * STAGE_WEIGHTS.das +
+    spl * STAGE_WEIGHTS.spl +
+    transactions * STAGE_WEIGHTS.transactions;
+  // Fetching is split evenly across linked wallets; scoring runs once over all of them
+  const { index, total } = state.wallets;
+  return ((index + fetched / (1 - STAGE_WEIGHTS.scoring)) / total) * (1 - STAGE_WEIGHTS.scoring) + scoring * STAGE_WEIGHTS.scoring;
+}
+
+/** Linear extrapolation from elapsed time; null until there is enough progress to extrapolate from. */
+export function estimateRemainingMs(state: ScanProgressState, now: number = Date.now()): number | null {
+  const fraction = getScanProgressFraction(state);
+  if (state.done) return 0;
+  if (fraction < MIN_FRACTION_FOR_ESTIMATE) return null;
+  const elapsed = now - state.startedAt;
+  return Math.max(0, (elapsed / fraction) * (1 - fraction));
+}
+
+export function describeScanProgress(state: ScanProgressState): string {
+  if (state.done) return 'Scan complete';
+  if (state.scoring) return 'Calculating identity score';
+  const stage = describeFetchStage(state);
+  return state.wallets.total > 1 ? `Wallet ${state.wallets.index + 1} of ${state.wallets.total} · ${stage}` : stage;
+}
+
+function describeFetchStage(state: ScanProgressState): string {
+  if (!state.signatures.done) {
+    return `Reading transactions · page ${Math.max(1, state.signatures.page)} of up to ${state.signatures.maxPages}`;
+  }
+  if (!state.das.done) return `Indexing assets · page ${Math.max(1, state.das.page)}`;
+  if (!state.transactions.done) {
+    return state.transactions.total > 0
+      ? `Decoding transactions · ${state.transactions.fetched} of ${state.transactions.total}`
+      : 'Decoding transactions';
+  }
+  if (state.spl.completed < state.spl.total) return 'Checking token accounts';
+  return 'Analyzing blockchain data';
+}
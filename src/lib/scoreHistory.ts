@@ -0,0 +1,75 @@
+import { SCORE_HISTORY_CONFIG } from '@/constants';
+import type { RarityTier, ScanInputs } from '@/lib/walletScanner';
+
+/**
+ * The activity score a wallet had at one point in time: the score of what it
+ * did up to then, leaving out what it held (see `activityAsOf`).
+ */
+export interface ScoreCheckpoint {
+  /** Unix milliseconds. */
+  time: number;
+  score: number;
+  rarityTier: RarityTier;
+  /**
+   * True when the fetched signatures start after `time` but the wallet is
+   * older, so activity up to `time` is missing and the score is a lower bound.
+   */
+  partial: boolean;
+}
+
+/** Unix milliseconds of the wallet's first transaction, or null without history. */
+export function getFirstActivityTime(inputs: ScanInputs): number | null {
+  const oldest = inputs.signatures[inputs.signatures.length - 1];
+  const blockTime = inputs.firstActivity?.blockTime ?? oldest?.blockTime;
+  return blockTime ? blockTime * 1000 : null;
+}
+
+/**
+ * Ends of the last `months` full calendar months (UTC), oldest first, leaving
+ * out months that ended before the wallet's first transaction. The current
+ * month is not included; the scan itself is its checkpoint.
+ */
+export function getMonthlyCheckpoints(
+  firstActivityTime: number | null,
+  now: number,
+  months: number = SCORE_HISTORY_CONFIG.MONTHS
+): number[] {
+  if (firstActivityTime === null) return [];
+  const current = new Date(now);
+  const checkpoints: number[] = [];
+  for (let back = months; back >= 1; back--) {
+    // Day 1 of the month after, minus a millisecond
+    const monthEnd = Date.UTC(current.getUTCFullYear(), current.getUTCMonth() - back + 1, 1) - 1;
+    if (monthEnd >= firstActivityTime) checkpoints.push(monthEnd);
+  }
+  return checkpoints;
+}
+
+/**
+ * The activity in `inputs` up to `time`: signatures and decoded transactions
+ * after it are dropped. Balances, holdings, stake and positions carry no
+ * acquisition dates in the inputs, so they are left out entirely rather than
+ * counted as if they had always been held; scoring the result covers age,
+ * transaction count and the behaviour read from transactions.
+ */
+export function activityAsOf(inputs: ScanInputs, time: number): ScanInputs {
+  const cutoff = time / 1000;
+  return {
+    ...inputs,
+    balanceLamports: 0,
+    assets: [],
+    tokenHoldings: [],
+    stakeAccounts: [],
+    defiPositions: inputs.defiPositions && {},
+    signatures: inputs.signatures.filter((signature) => signature.blockTime && signature.blockTime <= cutoff),
+    transactions: inputs.transactions?.filter((tx) => tx.timestamp !== null && tx.timestamp <= cutoff) ?? null,
+  };
+}
+
+/** Whether history older than the fetched signature window is needed to score `time`. */
+export function isCheckpointPartial(inputs: ScanInputs, time: number): boolean {
+  const oldestFetched = inputs.signatures[inputs.signatures.length - 1]?.blockTime;
+  const firstActivity = getFirstActivityTime(inputs);
+  if (!oldestFetched || firstActivity === null) return false;
+  return firstActivity < oldestFetched * 1000 && time < oldestFetched * 1000;
+}
@@ -0,0 +1,200 @@
+import { RARITY_THRESHOLDS, SCORING } from '@/constants';
+import type { RarityTier, WalletTraits } from '@/lib/walletScanner';
+import { createLogger } from '@/lib/logger';
+
+const scoringLog = createLogger('scoring');
+
+export type ScoreCategory = 'balance' | 'wallet age' | 'transaction count' | 'NFT count' | 'OG status' | 'behavioral traits';
+
+/** One scoring rule as it applied to a wallet. */
+export interface ScoreItem {
+  category: ScoreCategory;
+  /** What the rule rewards, or the tier the wallet reached. */
+  rule: string;
+  /** The trait value the rule read; null when it was not available. */
+  input: number | string | boolean | null;
+  awarded: number;
+  /** Most the rule can award. */
+  possible: number;
+  /** True when the rule's own cap cut the points. */
+  capped: boolean;
+}
+
+/**
+ * Every rule `calculateScore` applied, in a fixed order, and how the items
+ * became the final score. Stored with the mint so a score can be audited.
+ */
+export interface ScoreBreakdown {
+  /** The score: items summed, rounded and capped at `MAX_SCORE`. */
+  total: number;
+  /** Items summed and rounded, before the `MAX_SCORE` cap. */
+  uncapped: number;
+  max: number;
+  /** True when `MAX_SCORE` cut the total. */
+  capApplied: boolean;
+  items: ScoreItem[];
+}
+
+function balanceItem(traits: WalletTraits): ScoreItem {
+  // Portfolio value when priced, SOL balance (staked included) otherwise
+  const usd = traits.portfolioUsd;
+  if (SCORING.BALANCE_MODEL === 'portfolio' && usd !== null) {
+    const tiers = SCORING.PORTFOLIO_USD_THRESHOLDS;
+    const tier = [tiers.LEGEND, tiers.MAJOR, tiers.MINOR].find((t) => usd >= t.usd);
+    return {
+      category: 'balance',
+      rule: tier ? `Portfolio ≥ $${tier.usd}` : `Portfolio under $${tiers.MINOR.usd}`,
+      input: Math.round(usd * 100) / 100,
+      awarded: tier?.bonus ?? 0,
+      possible: tiers.LEGEND.bonus,
+      capped: false,
+    };
+  }
+  const sol = traits.solBalance + traits.stakedSol;
+  const tiers = SCORING.SOL_BALANCE_THRESHOLDS;
+  const tier = [tiers.LEGEND, tiers.MAJOR, tiers.MINOR].find((t) => sol >= t.amount);
+  return {
+    category: 'balance',
+    rule: tier ? `≥ ${tier.amount} SOL, staked included` : `Under ${tiers.MINOR.amount} SOL`,
+    input: Math.round(sol * 1000) / 1000,
+    awarded: tier?.bonus ?? 0,
+    possible: tiers.LEGEND.bonus,
+    capped: false,
+  };
+}
+
+function walletAgeItem(traits: WalletTraits): ScoreItem {
+  const age = traits.walletAgeDays;
+  const tiers = [
+    { days: 365, points: SCORING.WALLET_AGE_MAX },
+    { days: 180, points: SCORING.WALLET_AGE_PER_YEAR * 2 },
+    { days: 90, points: SCORING.WALLET_AGE_PER_YEAR },
+    { days: 30, points: SCORING.WALLET_AGE_PER_YEAR / 2 },
+  ];
+  const tier = tiers.find((t) => age > t.days);
+  return {
+    category: 'wallet age',
+    rule: tier ? `Older than ${tier.days} days` : '30 days old or younger',
+    input: age,
+    awarded: tier?.points ?? 0,
+    possible: SCORING.WALLET_AGE_MAX,
+    capped: false,
+  };
+}
+
+function txCountItem(traits: WalletTraits): ScoreItem {
+  const points = traits.txCount * SCORING.TX_COUNT_MULTIPLIER;
+  return {
+    category: 'transaction count',
+    rule: `${SCORING.TX_COUNT_MULTIPLIER} per transaction`,
+    input: traits.txCount,
+    awarded: Math.min(points, SCORING.TX_COUNT_CAP),
+    possible: SCORING.TX_COUNT_CAP,
+    capped: points > SCORING.TX_COUNT_CAP,
+  };
+}
+
+function nftCountItem(traits: WalletTraits): ScoreItem {
+  const nfts = traits.nftCount;
+  const tiers = [
+    { count: 100, points: 100 },
+    { count: 50, points: 75 },
+    { count: 10, points: 40 },
+  ];
+  const tier = tiers.find((t) => nfts > t.count);
+  return {
+    category: 'NFT count',
+    rule: tier ? `More than ${tier.count} NFTs` : '10 NFTs or fewer',
+    input: nfts,
+    awarded: tier?.points ?? 0,
+    possible: tiers[0].points,
+    capped: false,
+  };
+}
+
+function flagItem(category: ScoreCategory, rule: string, flag: boolean, bonus: number): ScoreItem {
+  return { category, rule, input: flag, awarded: flag ? bonus : 0, possible: bonus, capped: false };
+}
+
+/**
+ * The items of `traits`' score without logging, for scores computed in bulk
+ * (rarity during a scan, past checkpoints, render-time checks).
+ */
+export function getScoreBreakdown(traits: WalletTraits): ScoreBreakdown {
+  // Heaviest held collection decides the blue-chip share
+  const topBlueChip = traits.blueChipCollections[0];
+
+  const items: ScoreItem[] = [
+    // 1. Balance (Max 75)
+    balanceItem(traits),
+    // 2. Wallet Age (Max 150)
+    walletAgeItem(traits),
+    // 3. Transaction Count (Max 100)
+    txCountItem(traits),
+    // 4. NFT Count (Max 100)
+    nftCountItem(traits),
+    // 5. OG Status (Max 550)
+    flagItem('OG status', 'Seeker Genesis holder', traits.hasSeeker, SCORING.SEEKER_GENESIS_BONUS),
+    flagItem('OG status', 'Chapter 2 preorder', traits.hasPreorder, SCORING.CHAPTER2_PREORDER_BONUS),
+    flagItem('OG status', 'Seeker + preorder combo', traits.hasCombo, SCORING.COMBO_BONUS),
+    // 6. Behavioral Traits (Max 250)
+    {
+      category: 'behavioral traits',
+      rule: topBlueChip ? `Blue chip: ${topBlueChip.name} (tier ${topBlueChip.tier})` : 'Blue-chip collection',
+      input: topBlueChip?.name ?? null,
+      awarded: topBlueChip ? Math.round(SCORING.BLUE_CHIP_BONUS * topBlueChip.weight) : 0,
+      possible: SCORING.BLUE_CHIP_BONUS,
+      capped: false,
+    },
+    flagItem('behavioral traits', 'DeFi King', traits.isDeFiKing, SCORING.DEFI_KING_BONUS),
+    flagItem('behavioral traits', `Diamond hands: ${SCORING.DIAMOND_HANDS_DAYS}+ days old`, traits.diamondHands, SCORING.DIAMOND_HANDS_BONUS),
+    flagItem('behavioral traits', 'Hyperactive', traits.hyperactiveDegen, SCORING.HYPERACTIVE_BONUS),
+    flagItem('behavioral traits', 'Meme Lord', traits.isMemeLord, SCORING.MEME_LORD_BONUS),
+    flagItem('behavioral traits', 'Staker', traits.isStaker, SCORING.STAKER_BONUS),
+  ];
+
+  const uncapped = Math.round(items.reduce((sum, item) => sum + item.awarded, 0));
+  return {
+    total: Math.min(uncapped, SCORING.MAX_SCORE),
+    uncapped,
+    max: SCORING.MAX_SCORE,
+    capApplied: uncapped > SCORING.MAX_SCORE,
+    items,
+  };
+}
+
+/** Points `breakdown` awarded per category, in scoring order. */
+export function getCategoryPoints(breakdown: ScoreBreakdown): { category: ScoreCategory; points: number }[] {
+  const totals = new Map<ScoreCategory, number>();
+  breakdown.items.forEach((item) => totals.set(item.category, (totals.get(item.category) ?? 0) + item.awarded));
+  return Array.from(totals, ([category, points]) => ({ category, points }));
+}
+
+export function calculateScore(traits: WalletTraits): ScoreBreakdown {
+  const breakdown = getScoreBreakdown(traits);
+
+  scoringLog.debug(`Total ${breakdown.total}`, {
+    inputs: {
+      sol: traits.solBalance + traits.stakedSol,
+      usd: traits.portfolioUsd,
+      age: traits.walletAgeDays,
+      tx: traits.txCount,
+      nfts: traits.nftCount,
+      seeker: traits.hasSeeker,
+      preorder: traits.hasPreorder,
+      combo: traits.hasCombo,
+    },
+    decisions: breakdown.items.filter((item) => item.awarded > 0),
+    capApplied: breakdown.capApplied,
+  });
+
+  return breakdown;
+}
+
+export function getRarityTier(score: number): RarityTier {
+  if (score >= RARITY_THRESHOLDS.MYTHIC) return 'mythic';
+  if (score >= RARITY_THRESHOLDS.LEGENDARY) return 'legendary';
+  if (score >= RARITY_THRESHOLDS.EPIC) return 'epic';
+  if (score >= RARITY_THRESHOLDS.RARE) return 'rare';
+  return 'common';
+}
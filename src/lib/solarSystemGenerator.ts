@@ -4,10 +4,13 @@ import {
   ClampToEdgeWrapping 
 } from 'three';
 import { VISUAL_CONFIG, PLANET_TYPES } from '@/constants';
-import type { WalletTraits, RarityTier } from '@/hooks/useWalletData';
-import { calculateScore } from '@/hooks/useWalletData';
+import { drawTexture, TEXTURE_SIZES } from '@/lib/proceduralTextures';
+import type { TextureKind } from '@/lib/proceduralTextures';
+import { createLogger } from '@/lib/logger';
+import type { WalletTraits, RarityTier } from '@/lib/walletScanner';
+import { getScoreBreakdown } from '@/lib/scoring';
 
-type PlanetSurface = 'terrestrial' | 'volcanic' | 'gas' | 'ice';
+export type PlanetSurface = 'terrestrial' | 'volcanic' | 'gas' | 'ice';
 
 export interface PlanetData {
   id: string;
@@ -22,6 +25,14 @@ export interface PlanetData {
   geometry: 'sphere' | 'oblate' | 'crystalline';
   materialSeed: number;
   surface: PlanetSurface;
+  /** Linked wallet this planet stands for; absent for a single-wallet system. */
+  sourceWallet?: string;
+}
+
+/** A wallet of a linked identity and how large a share of the planets it earns. */
+export interface PlanetSource {
+  address: string;
+  weight: number;
 }
 
 export interface MoonData {
@@ -150,362 +161,112 @@ const DUST_MULTIPLIER: Record<RarityTier, number> = {
   mythic: 1.8,
 };
 
+// Splits `count` planets across sources in proportion to weight (largest remainder), heaviest first
+function allocatePlanetSources(count: number, sources: PlanetSource[]): string[] {
+  const totalWeight = sources.reduce((sum, source) => sum + Math.max(source.weight, 1), 0);
+  const shares = sources.map((source) => {
+    const exact = (Math.max(source.weight, 1) / totalWeight) * count;
+    return { address: source.address, weight: source.weight, planets: Math.floor(exact), remainder: exact % 1 };
+  });
+  let unassigned = count - shares.reduce((sum, share) => sum + share.planets, 0);
+  [...shares].sort((a, b) => b.remainder - a.remainder).forEach((share) => {
+    if (unassigned > 0) { share.planets++; unassigned--; }
+  });
+  return shares
+    .sort((a, b) => b.weight - a.weight)
+    .flatMap((share) => Array<string>(share.planets).fill(share.address));
+}
+
 function clamp(value: number, min: number, max: number) {
   return Math.min(Math.max(value, min), max);
 }
 
-// ============================================================================
-// PROCEDURAL TEXTURE GENERATION - Simplex Noise & FBM
-// ============================================================================
+const renderLog = createLogger('render');
 
-function simplexNoise(x: number, y: number, seed: number): number {
-  const X = Math.floor(x) & 255;
-  const Y = Math.floor(y) & 255;
-  const hash = ((X * 374761393 + Y * 668265263 + seed) ^ (seed >> 13)) & 0xFFFFFFFF;
-  return ((hash * (hash * hash * 15731 + 789221) + 1376312589) & 0x7FFFFFFF) / 0x7FFFFFFF * 2 - 1;
-}
+const BUMP_SCALES: Record<PlanetSurface, number> = {
+  terrestrial: 0.05,
+  volcanic: 0.1,
+  ice: 0.06,
+  gas: 0.02,
+};
 
-function fbm(x: number, y: number, seed: number, octaves: number): number {
-  let value = 0;
-  let amplitude = 1;
-  let frequency = 1;
-  let maxValue = 0;
-  for (let i = 0; i < octaves; i++) {
-    value += simplexNoise(x * frequency, y * frequency, seed + i) * amplitude;
-    maxValue += amplitude;
-    amplitude *= 0.5;
-    frequency *= 2;
-  }
-  return value / maxValue;
+export interface PlanetTextures {
+  map: Texture;
+  bumpMap?: Texture;
+  bumpScale: number;
 }
 
-function createCanvasTexture(seed: number, drawFn: (ctx: CanvasRenderingContext2D, rand: () => number) => void): Texture {
-  const canvas = document.createElement('canvas');
-  canvas.width = 512;
-  canvas.height = 512;
-  const ctx = canvas.getContext('2d')!;
-  const random = seededRandom(seed);
-  drawFn(ctx, random);
-  const texture = new CanvasTexture(canvas);
+/** Configures a texture painted by `drawTexture`, on either thread, for use on a sphere. */
+export function prepareTexture(texture: Texture): Texture {
   texture.needsUpdate = true;
   texture.wrapS = texture.wrapT = ClampToEdgeWrapping;
   return texture;
 }
 
+// The surface texture doubles as the bump map, except on gas giants which have no relief
+export function toPlanetTextures(surface: PlanetSurface, texture: Texture): PlanetTextures {
+  return surface === 'gas'
+    ? { map: texture, bumpScale: BUMP_SCALES.gas }
+    : { map: texture, bumpMap: texture, bumpScale: BUMP_SCALES[surface] };
+}
+
+/** Paints a texture on the main thread; `loadTexture` in `@/lib/worker` does it off-thread. */
+export function createCanvasTexture(kind: TextureKind, seed: number): Texture {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = TEXTURE_SIZES[kind];
+  drawTexture(canvas.getContext('2d')!, kind, seed);
+  return prepareTexture(new CanvasTexture(canvas));
+}
+
 // Generate terrestrial planet texture: oceans, continents, polar ice caps
 export function generateTerrestrialTexture(seed: number): { map: Texture; bumpMap: Texture; bumpScale: number } {
-  const texture = createCanvasTexture(seed, (ctx) => {
-    const width = ctx.canvas.width;
-    const height = ctx.canvas.height;
-    const imageData = ctx.createImageData(width, height);
-    const data = imageData.data;
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = (y * width + x) * 4;
-        const nx = x / width;
-        const ny = y / height;
-        
-        const elevation = fbm(nx * 4, ny * 4, seed, 6) * 0.5 + 0.5;
-        const detail = fbm(nx * 16, ny * 16, seed + 100, 4) * 0.5 + 0.5;
-        const microDetail = fbm(nx * 32, ny * 32, seed + 200, 3) * 0.5 + 0.5;
-        
-        const landMask = elevation * 0.6 + detail * 0.3 + microDetail * 0.1;
-        
-        if (landMask > 0.5) {
-          const landType = detail;
-          if (landType > 0.6) {
-            // Forest
-            data[idx] = 45 + microDetail * 30;
-            data[idx + 1] = 90 + microDetail * 40;
-            data[idx + 2] = 39 + microDetail * 20;
-          } else if (landType > 0.4) {
-            // Plains
-            data[idx] = 90 + microDetail * 50;
-            data[idx + 1] = 110 + microDetail * 40;
-            data[idx + 2] = 60 + microDetail * 30;
-          } else {
-            // Desert/Mountains
-            data[idx] = 139 + microDetail * 40;
-            data[idx + 1] = 119 + microDetail * 30;
-            data[idx + 2] = 101 + microDetail * 20;
-          }
-        } else {
-          // Ocean
-          const depth = (0.5 - landMask) * 2;
-          data[idx] = 5 + depth * 20;
-          data[idx + 1] = 44 + depth * 40;
-          data[idx + 2] = 84 + depth * 60 + microDetail * 20;
-        }
-        
-        // Polar ice caps
-        if (ny < 0.1 || ny > 0.9) {
-          const iceFactor = ny < 0.1 ? (0.1 - ny) * 10 : (ny - 0.9) * 10;
-          data[idx] = data[idx] * (1 - iceFactor) + 255 * iceFactor;
-          data[idx + 1] = data[idx + 1] * (1 - iceFactor) + 255 * iceFactor;
-          data[idx + 2] = data[idx + 2] * (1 - iceFactor) + 255 * iceFactor;
-        }
-        
-        data[idx + 3] = 255;
-      }
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-  });
-  
-  return { map: texture, bumpMap: texture, bumpScale: 0.05 };
+  const texture = createCanvasTexture('terrestrial', seed);
+  return { map: texture, bumpMap: texture, bumpScale: BUMP_SCALES.terrestrial };
 }
 
 // Generate volcanic/dead world texture: craters, lava flows, rocky surface
 export function generateVolcanicTexture(seed: number): { map: Texture; bumpMap: Texture; bumpScale: number } {
-  const texture = createCanvasTexture(seed, (ctx) => {
-    const width = ctx.canvas.width;
-    const height = ctx.canvas.height;
-    const imageData = ctx.createImageData(width, height);
-    const data = imageData.data;
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = (y * width + x) * 4;
-        const nx = x / width;
-        const ny = y / height;
-        
-        const craters = fbm(nx * 8, ny * 8, seed, 5) * 0.5 + 0.5;
-        const roughness = fbm(nx * 24, ny * 24, seed + 50, 4) * 0.5 + 0.5;
-        const lavaFlow = fbm(nx * 6, ny * 6, seed + 150, 3) * 0.5 + 0.5;
-        
-        let r = 45, g = 10, b = 0;
-        
-        if (craters < 0.3) {
-          const craterDepth = (0.3 - craters) * 3;
-          r *= (1 - craterDepth * 0.5);
-          g *= (1 - craterDepth * 0.5);
-          b *= (1 - craterDepth * 0.5);
-        }
-        
-        if (roughness > 0.6) {
-          const dustAmount = (roughness - 0.6) * 2.5;
-          r += dustAmount * 80;
-          g += dustAmount * 35;
-          b += dustAmount * 15;
-        }
-        
-        if (lavaFlow > 0.75) {
-          const lavaIntensity = (lavaFlow - 0.75) * 4;
-          r = Math.min(255, r + lavaIntensity * 200);
-          g = Math.min(255, g + lavaIntensity * 100);
-          b = Math.min(255, b + lavaIntensity * 50);
-        }
-        
-        data[idx] = Math.min(255, r + roughness * 20);
-        data[idx + 1] = Math.min(255, g + roughness * 10);
-        data[idx + 2] = Math.min(255, b + roughness * 5);
-        data[idx + 3] = 255;
-      }
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-  });
-  
-  return { map: texture, bumpMap: texture, bumpScale: 0.1 };
+  const texture = createCanvasTexture('volcanic', seed);
+  return { map: texture, bumpMap: texture, bumpScale: BUMP_SCALES.volcanic };
 }
 
 // Generate ice world texture: glacial crevasses, frost, crystalline structure
 export function generateIceTexture(seed: number): { map: Texture; bumpMap: Texture; bumpScale: number } {
-  const texture = createCanvasTexture(seed, (ctx) => {
-    const width = ctx.canvas.width;
-    const height = ctx.canvas.height;
-    const imageData = ctx.createImageData(width, height);
-    const data = imageData.data;
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = (y * width + x) * 4;
-        const nx = x / width;
-        const ny = y / height;
-        
-        const iceNoise = fbm(nx * 12, ny * 12, seed, 5) * 0.5 + 0.5;
-        const cracks = fbm(nx * 20, ny * 20, seed + 100, 4) * 0.5 + 0.5;
-        const frost = fbm(nx * 32, ny * 32, seed + 200, 3) * 0.5 + 0.5;
-        
-        let r = 186, g = 230, b = 253;
-        
-        if (cracks < 0.35) {
-          const crackDepth = (0.35 - cracks) * 2.85;
-          r = Math.max(100, r - crackDepth * 100);
-          g = Math.max(150, g - crackDepth * 100);
-          b = Math.max(200, b - crackDepth * 80);
-        }
-        
-        if (frost > 0.65) {
-          const snowAmount = (frost - 0.65) * 2.85;
-          r = r + (255 - r) * snowAmount;
-          g = g + (255 - g) * snowAmount;
-          b = b + (255 - b) * snowAmount;
-        }
-        
-        const crystalVariation = iceNoise * 30;
-        data[idx] = Math.min(255, r + crystalVariation);
-        data[idx + 1] = Math.min(255, g + crystalVariation);
-        data[idx + 2] = Math.min(255, b + crystalVariation);
-        data[idx + 3] = 255;
-      }
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-  });
-  
-  return { map: texture, bumpMap: texture, bumpScale: 0.06 };
+  const texture = createCanvasTexture('ice', seed);
+  return { map: texture, bumpMap: texture, bumpScale: BUMP_SCALES.ice };
 }
 
 // Generate gas giant texture: horizontal atmospheric bands with turbulence
 export function generateGasGiantTexture(seed: number): { map: Texture; bumpScale: number } {
-  const texture = createCanvasTexture(seed, (ctx) => {
-    const width = ctx.canvas.width;
-    const height = ctx.canvas.height;
-    const imageData = ctx.createImageData(width, height);
-    const data = imageData.data;
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = (y * width + x) * 4;
-        const nx = x / width;
-        const ny = y / height;
-        
-        const bandNoise = fbm(nx * 2, ny * 12, seed, 4);
-        const turbulence = fbm(nx * 8, ny * 8, seed + 100, 3) * 0.1;
-        const distortedY = ny + turbulence;
-        
-        const bandValue = Math.sin(distortedY * 20 + bandNoise * 2) * 0.5 + 0.5;
-        const microTurbulence = fbm(nx * 16, ny * 16, seed + 200, 2) * 0.5 + 0.5;
-        
-        let r, g, b;
-        if (bandValue > 0.5) {
-          r = 245 * (0.8 + microTurbulence * 0.2);
-          g = 158 * (0.8 + microTurbulence * 0.2);
-          b = 11 * (0.8 + microTurbulence * 0.2);
-        } else {
-          r = 124 * (0.7 + microTurbulence * 0.3);
-          g = 45 * (0.7 + microTurbulence * 0.3);
-          b = 18 * (0.7 + microTurbulence * 0.3);
-        }
-        
-        const stormNoise = fbm(nx * 4, ny * 4, seed + 300, 3);
-        if (stormNoise > 0.7) {
-          const stormIntensity = (stormNoise - 0.7) * 3.3;
-          r = Math.min(255, r + stormIntensity * 100);
-          g = Math.min(255, g + stormIntensity * 80);
-          b = Math.min(255, b + stormIntensity * 60);
-        }
-        
-        data[idx] = Math.min(255, r);
-        data[idx + 1] = Math.min(255, g);
-        data[idx + 2] = Math.min(255, b);
-        data[idx + 3] = 255;
-      }
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-  });
-  
-  return { map: texture, bumpScale: 0.02 };
+  return { map: createCanvasTexture('gas', seed), bumpScale: BUMP_SCALES.gas };
 }
 
 // Generate cloud layer texture for terrestrial planets
 export function generateCloudTexture(seed: number): Texture {
-  const texture = createCanvasTexture(seed, (ctx) => {
-    const width = ctx.canvas.width;
-    const height = ctx.canvas.height;
-    const imageData = ctx.createImageData(width, height);
-    const data = imageData.data;
-    
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = (y * width + x) * 4;
-        const nx = x / width;
-        const ny = y / height;
-        
-        const clouds = fbm(nx * 6, ny * 6, seed, 5) * 0.5 + 0.5;
-        const wispy = fbm(nx * 12, ny * 12, seed + 100, 4) * 0.5 + 0.5;
-        
-        const cloudDensity = (clouds * 0.7 + wispy * 0.3);
-        const alpha = cloudDensity > 0.4 ? (cloudDensity - 0.4) * 1.67 : 0;
-        
-        data[idx] = 255;
-        data[idx + 1] = 255;
-        data[idx + 2] = 255;
-        data[idx + 3] = Math.min(255, alpha * 200);
-      }
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-  });
-  
-  return texture;
+  return createCanvasTexture('cloud', seed);
 }
 
 // Generate crater texture for moons
 export function generateMoonTexture(seed: number): Texture {
-  const texture = createCanvasTexture(seed, (ctx) => {
-    const width = 128;
-    const height = 128;
-    ctx.canvas.width = width;
-    ctx.canvas.height = height;
-    const imageData = ctx.createImageData(width, height);
-    const data = imageData.data;
-    
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = (y * width + x) * 4;
-        const nx = x / width;
-        const ny = y / height;
-        
-        const craters = fbm(nx * 10, ny * 10, seed, 5) * 0.5 + 0.5;
-        const detail = fbm(nx * 20, ny * 20, seed + 50, 4) * 0.5 + 0.5;
-        
-        let gray = 100 + detail * 50;
-        
-        if (craters < 0.35) {
-          const depth = (0.35 - craters) * 2.5;
-          gray = Math.max(40, gray - depth * 80);
-        }
-        
-        data[idx] = gray;
-        data[idx + 1] = gray;
-        data[idx + 2] = gray;
-        data[idx + 3] = 255;
-      }
-    }
-    
-    ctx.putImageData(imageData, 0, 0);
-  });
-  
-  return texture;
+  return createCanvasTexture('moon', seed);
 }
 
 // Main texture generator based on planet surface type
-export function generatePlanetTextures(surface: PlanetSurface, materialSeed: number): { map: Texture; bumpMap?: Texture; bumpScale: number } {
-  switch (surface) {
-    case 'terrestrial':
-      return generateTerrestrialTexture(materialSeed);
-    case 'volcanic':
-      return generateVolcanicTexture(materialSeed);
-    case 'ice':
-      return generateIceTexture(materialSeed);
-    case 'gas':
-      return generateGasGiantTexture(materialSeed);
-    default:
-      return generateTerrestrialTexture(materialSeed);
-  }
+export function generatePlanetTextures(surface: PlanetSurface, materialSeed: number): PlanetTextures {
+  return toPlanetTextures(surface, createCanvasTexture(surface, materialSeed));
 }
 
-export function generateSolarSystem(traits: WalletTraits, walletAddress?: string): SolarSystemData {
+/**
+ * `sources` lists the wallets of a linked identity; each planet is then
+ * attributed to one of them, inner orbits going to the heaviest wallets.
+ */
+export function generateSolarSystem(traits: WalletTraits, walletAddress?: string, sources: PlanetSource[] = []): SolarSystemData {
   const rarityConfig = RARITY_VISUALS[traits.rarityTier];
   const addressSeed = walletAddress ? hashWalletAddress(walletAddress) : 0;
   const random = seededRandom(addressSeed + traits.uniqueTokenCount + traits.nftCount);
   
   // Calculate current score for binary activation
-  const currentScore = calculateScore(traits);
+  const currentScore = getScoreBreakdown(traits).total;
 
   // 1. Determine Sun Visuals from Traits
   let starMode = rarityConfig.starMode;
@@ -530,7 +291,7 @@ export function generateSolarSystem(traits: WalletTraits, walletAddress?: string
   if (currentScore > 650 && starMode === 'single') {
     starMode = 'binary';
     plasmaBridge = true;
-    console.log(`%c[Binary Star Activated] Score: ${currentScore} > 650`, "color: #a855f7; font-weight: bold;");
+    renderLog.debug(`Binary star activated at score ${currentScore}`);
   }
 
   // Mythic tier transforms the system into a Pulsar regardless of specific holder traits,
@@ -622,8 +383,13 @@ export function generateSolarSystem(traits: WalletTraits, walletAddress?: string
     });
   }
 
+  if (sources.length > 1) {
+    const owners = allocatePlanetSources(planets.length, sources);
+    planets.forEach((planet, i) => { planet.sourceWallet = owners[i]; });
+  }
+
   // Spec: Blue Chip NFT -> rings
-  if ((traits.isBlueChip || rarityConfig.ensureRings) && planets.length > 0) {
+  if ((traits.blueChipCollections.length > 0 || rarityConfig.ensureRings) && planets.length > 0) {
     planets[largestPlanetIndex].hasRing = true;
   }
 
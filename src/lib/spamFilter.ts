@@ -0,0 +1,93 @@
+import { SPAM_CONFIG } from '@/constants';
+import { matchBlueChipCollection } from '@/lib/collectionRegistry';
+import { isFungibleAsset } from '@/lib/portfolio';
+import type { DASAsset } from '@/lib/walletScanner';
+
+export type SpamReason = 'spamCreator' | 'phishingUrl' | 'unverifiedCollection' | 'massAirdrop';
+
+/** An asset left out of NFT counts, with why. */
+export interface ExcludedAsset {
+  id: string;
+  name: string | null;
+  image: string | null;
+  reasons: SpamReason[];
+}
+
+export const SPAM_REASON_LABELS: Record<SpamReason, string> = {
+  spamCreator: 'Known spam creator',
+  phishingUrl: 'Claim or redeem lure with a link in metadata',
+  unverifiedCollection: 'Compressed with no verified collection',
+  massAirdrop: 'Part of a mass airdrop',
+};
+
+const SPAM_CREATORS = new Set(SPAM_CONFIG.CREATORS);
+
+function metadataText(asset: DASAsset): string {
+  const metadata = asset.content?.metadata || {};
+  // The project link is left out: most legitimate NFTs have one
+  return [metadata.name, metadata.symbol, metadata.description]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function collectionOf(asset: DASAsset): string | undefined {
+  return (asset.grouping || []).find((g) => g.group_key === 'collection' && g.verified !== false)?.group_value;
+}
+
+// A collection claim nobody verified; DAS only returns these when asked, but it is not trusted when present
+function hasUnverifiedCollection(asset: DASAsset): boolean {
+  return (asset.grouping || []).some((g) => g.group_key === 'collection' && g.verified === false);
+}
+
+// Airdrops are grouped by collection, or by first creator when there is none
+function airdropKey(asset: DASAsset): string | undefined {
+  return collectionOf(asset) ?? asset.creators?.[0]?.address;
+}
+
+/**
+ * Splits assets into those that count and spam. Fungible tokens and registry
+ * blue chips are never spam, unless the item also carries an unverified
+ * collection claim, in which case the usual rules decide. Metadata and creator rules apply to every NFT;
+ * the collection and mass-airdrop rules only to compressed NFTs, which cost
+ * next to nothing to spray across wallets.
+ */
+export function partitionSpamAssets(assets: DASAsset[]): { kept: DASAsset[]; excluded: ExcludedAsset[] } {
+  const airdropSizes = new Map<string, number>();
+  assets.forEach((asset) => {
+    const key = asset.compression?.compressed ? airdropKey(asset) : undefined;
+    if (key) airdropSizes.set(key, (airdropSizes.get(key) ?? 0) + 1);
+  });
+
+  const kept: DASAsset[] = [];
+  const excluded: ExcludedAsset[] = [];
+
+  assets.forEach((asset) => {
+    if (isFungibleAsset(asset) || (!hasUnverifiedCollection(asset) && matchBlueChipCollection(asset))) {
+      kept.push(asset);
+      return;
+    }
+
+    const reasons: SpamReason[] = [];
+    if ((asset.creators || []).some((c) => SPAM_CREATORS.has(c.address))) reasons.push('spamCreator');
+    const text = metadataText(asset);
+    if (SPAM_CONFIG.PHISHING_PATTERNS.some((pattern) => pattern.test(text))) reasons.push('phishingUrl');
+    if (asset.compression?.compressed) {
+      if (!collectionOf(asset)) reasons.push('unverifiedCollection');
+      const key = airdropKey(asset);
+      if (key && (airdropSizes.get(key) ?? 0) >= SPAM_CONFIG.MASS_AIRDROP_MIN_ITEMS) reasons.push('massAirdrop');
+    }
+
+    if (reasons.length === 0) {
+      kept.push(asset);
+      return;
+    }
+    excluded.push({
+      id: asset.id,
+      name: asset.content?.metadata?.name ?? null,
+      image: asset.content?.links?.image ?? null,
+      reasons,
+    });
+  });
+
+  return { kept, excluded };
+}
@@ -0,0 +1,102 @@
+import { TOKEN_PROGRAM_IDS, TRANSACTION_PROGRAM_IDS } from '@/constants';
+
+export type TransactionCategory =
+  | 'swap'
+  | 'nftBuy'
+  | 'nftSell'
+  | 'nftList'
+  | 'nftMint'
+  | 'stake'
+  | 'unstake'
+  | 'bridge'
+  | 'governanceVote'
+  | 'transfer'
+  | 'other';
+
+export type TransactionCounts = Record<TransactionCategory, number>;
+
+/**
+ * Provider-neutral view of one transaction: enough to classify it and small
+ * enough to keep in the scan cache.
+ */
+export interface TransactionSummary {
+  signature: string;
+  /** Unix seconds. */
+  timestamp: number | null;
+  /** Enhanced-transaction label (Helius `type`), when the provider assigns one. */
+  type?: string;
+  /**
+   * Top-level and inner instructions; `type` is the parsed instruction name
+   * when known, `inner` marks a CPI made by a top-level instruction.
+   */
+  instructions: { programId: string; type?: string; inner?: boolean }[];
+  /** Buyer and seller of an NFT sale, when the provider decoded one. */
+  nft?: { buyer?: string; seller?: string };
+}
+
+export const TRANSACTION_CATEGORIES: TransactionCategory[] = [
+  'swap', 'nftBuy', 'nftSell', 'nftList', 'nftMint', 'stake', 'unstake', 'bridge', 'governanceVote', 'transfer', 'other',
+];
+
+// Helius enhanced types that map straight onto a category. NFT_SALE is left
+// out because buy vs sell depends on which side the wallet was on.
+const ENHANCED_TYPE_CATEGORIES: Record<string, TransactionCategory> = {
+  SWAP: 'swap',
+  NFT_LISTING: 'nftList',
+  NFT_MINT: 'nftMint',
+  COMPRESSED_NFT_MINT: 'nftMint',
+  STAKE_SOL: 'stake',
+  STAKE_TOKEN: 'stake',
+  UNSTAKE_SOL: 'unstake',
+  UNSTAKE_TOKEN: 'unstake',
+  TRANSFER: 'transfer',
+};
+
+const STAKE_INSTRUCTIONS = new Set(['initialize', 'delegate', 'initializeChecked']);
+const UNSTAKE_INSTRUCTIONS = new Set(['deactivate', 'withdraw']);
+const TRANSFER_INSTRUCTIONS = new Set(['transfer', 'transferChecked', 'transferWithSeed']);
+const TOKEN_PROGRAMS = new Set<string>(Object.values(TOKEN_PROGRAM_IDS));
+
+const invokes = (tx: TransactionSummary, programIds: readonly string[]) =>
+  tx.instructions.some((ix) => programIds.includes(ix.programId));
+
+/**
+ * Tags one transaction from `owner`'s point of view. The provider's own label
+ * wins when it has one; otherwise the invoked programs decide, checked from the
+ * most specific (bridges, marketplaces) to the most generic (plain transfers).
+ * `owner` may list every address of a linked identity.
+ */
+export function classifyTransaction(tx: TransactionSummary, owner: string | string[]): TransactionCategory {
+  const owners = Array.isArray(owner) ? owner : [owner];
+  const owns = (address?: string) => Boolean(address) && owners.includes(address);
+  if (tx.type === 'NFT_SALE' && tx.nft) {
+    if (owns(tx.nft.buyer)) return 'nftBuy';
+    if (owns(tx.nft.seller)) return 'nftSell';
+  }
+  if (tx.type && ENHANCED_TYPE_CATEGORIES[tx.type]) return ENHANCED_TYPE_CATEGORIES[tx.type];
+
+  if (invokes(tx, TRANSACTION_PROGRAM_IDS.BRIDGE)) return 'bridge';
+  if (invokes(tx, TRANSACTION_PROGRAM_IDS.GOVERNANCE)) return 'governanceVote';
+  if (owns(tx.nft?.buyer)) return 'nftBuy';
+  if (owns(tx.nft?.seller)) return 'nftSell';
+  if (invokes(tx, TRANSACTION_PROGRAM_IDS.SWAP)) return 'swap';
+
+  const stakeIx = tx.instructions.filter((ix) => ix.programId === TRANSACTION_PROGRAM_IDS.STAKE);
+  if (stakeIx.some((ix) => UNSTAKE_INSTRUCTIONS.has(ix.type ?? ''))) return 'unstake';
+  if (stakeIx.some((ix) => STAKE_INSTRUCTIONS.has(ix.type ?? ''))) return 'stake';
+
+  const isTransfer = tx.instructions.some(
+    (ix) =>
+      (ix.programId === TRANSACTION_PROGRAM_IDS.SYSTEM || TOKEN_PROGRAMS.has(ix.programId)) &&
+      TRANSFER_INSTRUCTIONS.has(ix.type ?? '')
+  );
+  return isTransfer ? 'transfer' : 'other';
+}
+
+export function countTransactionCategories(transactions: TransactionSummary[], owner: string | string[]): TransactionCounts {
+  const counts = Object.fromEntries(TRANSACTION_CATEGORIES.map((category) => [category, 0])) as TransactionCounts;
+  transactions.forEach((tx) => {
+    counts[classifyTransaction(tx, owner)]++;
+  });
+  return counts;
+}
@@ -0,0 +1,101 @@
+import type { RarityTier, WalletTraits } from '@/lib/walletScanner';
+import { getCategoryPoints, getScoreBreakdown } from '@/lib/scoring';
+
+/** One line of the compare table: a value per wallet, in the order they were given. */
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  values: string[];
+  /** Wallet with the strictly highest value; null on a tie. */
+  leader: number | null;
+  /** Highest minus lowest, for rows that compare numbers. */
+  spread?: number;
+}
+
+interface TraitField {
+  key: string;
+  label: string;
+  value: (traits: WalletTraits) => number;
+  format: (traits: WalletTraits) => string;
+}
+
+const TIER_RANK: Record<RarityTier, number> = { common: 0, rare: 1, epic: 2, legendary: 3, mythic: 4 };
+
+const yesNo = (flag: boolean) => (flag ? 'Yes' : '—');
+
+const TRAIT_FIELDS: TraitField[] = [
+  { key: 'rarity', label: 'Rarity', value: (t) => TIER_RANK[t.rarityTier], format: (t) => t.rarityTier },
+  { key: 'sol', label: 'SOL balance', value: (t) => t.solBalance, format: (t) => t.solBalance.toFixed(2) },
+  { key: 'staked', label: 'Staked SOL', value: (t) => t.stakedSol, format: (t) => t.stakedSol.toFixed(2) },
+  {
+    key: 'portfolio',
+    label: 'Portfolio (USD)',
+    value: (t) => t.portfolioUsd ?? 0,
+    format: (t) => (t.portfolioUsd === null ? 'n/a' : `$${Math.round(t.portfolioUsd).toLocaleString()}`),
+  },
+  { key: 'age', label: 'Wallet age (days)', value: (t) => t.walletAgeDays, format: (t) => String(t.walletAgeDays) },
+  { key: 'tx', label: 'Transactions', value: (t) => t.txCount, format: (t) => String(t.txCount) },
+  { key: 'nfts', label: 'NFTs', value: (t) => t.nftCount, format: (t) => String(t.nftCount) },
+  { key: 'tokens', label: 'Unique tokens', value: (t) => t.uniqueTokenCount, format: (t) => String(t.uniqueTokenCount) },
+  {
+    key: 'blueChips',
+    label: 'Blue-chip collections',
+    value: (t) => t.blueChipCollections.length,
+    format: (t) => t.blueChipCollections.map((c) => c.name).join(', ') || '—',
+  },
+  { key: 'seeker', label: 'Seeker Genesis', value: (t) => Number(t.hasSeeker), format: (t) => yesNo(t.hasSeeker) },
+  { key: 'preorder', label: 'Chapter 2 preorder', value: (t) => Number(t.hasPreorder), format: (t) => yesNo(t.hasPreorder) },
+  { key: 'combo', label: 'Seeker + preorder combo', value: (t) => Number(t.hasCombo), format: (t) => yesNo(t.hasCombo) },
+  { key: 'defiKing', label: 'DeFi King', value: (t) => Number(t.isDeFiKing), format: (t) => yesNo(t.isDeFiKing) },
+  { key: 'diamondHands', label: 'Diamond hands', value: (t) => Number(t.diamondHands), format: (t) => yesNo(t.diamondHands) },
+  { key: 'hyperactive', label: 'Hyperactive', value: (t) => Number(t.hyperactiveDegen), format: (t) => yesNo(t.hyperactiveDegen) },
+  { key: 'memeLord', label: 'Meme Lord', value: (t) => Number(t.isMemeLord), format: (t) => yesNo(t.isMemeLord) },
+  { key: 'staker', label: 'Staker', value: (t) => Number(t.isStaker), format: (t) => yesNo(t.isStaker) },
+];
+
+function leaderOf(values: number[]): number | null {
+  const best = Math.max(...values);
+  const leaders = values.flatMap((value, index) => (value === best ? [index] : []));
+  return leaders.length === 1 ? leaders[0] : null;
+}
+
+/** Trait-by-trait rows for wallets scanned side by side. */
+export function compareTraits(traitsList: WalletTraits[]): ComparisonRow[] {
+  if (traitsList.length === 0) return [];
+  return TRAIT_FIELDS.map((field) => {
+    const numbers = traitsList.map(field.value);
+    return {
+      key: field.key,
+      label: field.label,
+      values: traitsList.map(field.format),
+      leader: leaderOf(numbers),
+      spread: Math.max(...numbers) - Math.min(...numbers),
+    };
+  });
+}
+
+/**
+ * Points per scoring category for each wallet, then the capped totals; the
+ * rows with the largest spread explain most of a score gap.
+ */
+export function compareScoreComponents(traitsList: WalletTraits[], scores: number[]): ComparisonRow[] {
+  if (traitsList.length === 0) return [];
+  const categoryLists = traitsList.map((traits) => getCategoryPoints(getScoreBreakdown(traits)));
+
+  // Every wallet gets the same categories in the same order
+  const rows = categoryLists[0].map(({ category }, index) => {
+    const points = categoryLists.map((categories) => categories[index].points);
+    return {
+      key: category,
+      label: category,
+      values: points.map((awarded) => String(Math.round(awarded))),
+      leader: leaderOf(points),
+      spread: Math.max(...points) - Math.min(...points),
+    };
+  });
+
+  return [
+    ...rows,
+    { key: 'total', label: 'Total', values: scores.map(String), leader: leaderOf(scores), spread: Math.max(...scores) - Math.min(...scores) },
+  ];
+}
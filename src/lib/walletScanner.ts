@@ -0,0 +1,850 @@
+import { PublicKey, ConfirmedSignatureInfo } from '@solana/web3.js';
+import {
+  MEME_COIN_MINTS,
+  DEFI_PROTOCOLS,
+  LST_MINTS,
+  TOKEN_PROGRAM_IDS,
+  SCORING,
+} from '@/constants';
+import { calculateScore, getRarityTier, getScoreBreakdown } from '@/lib/scoring';
+import type { ScoreBreakdown } from '@/lib/scoring';
+import { activityAsOf, getFirstActivityTime, getMonthlyCheckpoints, isCheckpointPartial } from '@/lib/scoreHistory';
+import type { ScoreCheckpoint } from '@/lib/scoreHistory';
+import { findFirstActivity, toFirstActivity } from '@/lib/firstActivity';
+import type { FirstActivity } from '@/lib/firstActivity';
+import { computeActivityMetrics, daysSince } from '@/lib/activityMetrics';
+import type { ActivityMetrics } from '@/lib/activityMetrics';
+import { countTransactionCategories } from '@/lib/txClassifier';
+import type { TransactionCounts, TransactionSummary } from '@/lib/txClassifier';
+import { getPriceSource } from '@/lib/priceSource';
+import type { PriceSnapshot, PriceSource } from '@/lib/priceSource';
+import { collectFungibleBalances, isFungibleAsset, valuePortfolio } from '@/lib/portfolio';
+import type { ValuedHolding } from '@/lib/portfolio';
+import { detectDefiUsage } from '@/lib/defiDetection';
+import { collectBlueChipHoldings } from '@/lib/collectionRegistry';
+import type { BlueChipHolding } from '@/lib/collectionRegistry';
+import { partitionSpamAssets } from '@/lib/spamFilter';
+import type { ExcludedAsset } from '@/lib/spamFilter';
+import type { DefiProtocolUsage } from '@/lib/defiDetection';
+import { TRANSACTION_BATCH_SIZE } from '@/lib/chainData';
+import { isRpcMethodRejected } from '@/lib/rpcClient';
+import { createLogger } from '@/lib/logger';
+import { getTokenAddresses } from '@/lib/network';
+import type { NetworkId, TokenAddresses } from '@/lib/network';
+import type { AssetPage, AssetPagePosition, ChainDataProvider, ChainDataProviderInfo } from '@/lib/chainData';
+
+export type RarityTier = 'common' | 'rare' | 'epic' | 'legendary' | 'mythic';
+
+export interface WalletTraits {
+  hasSeeker: boolean;
+  hasPreorder: boolean;
+  hasCombo: boolean;
+  isDeFiKing: boolean;
+  /** Registry blue-chip collections held, heaviest tier first. */
+  blueChipCollections: BlueChipHolding[];
+  uniqueTokenCount: number;
+  nftCount: number;
+  txCount: number;
+  memeCoinsHeld: string[];
+  isMemeLord: boolean;
+  hyperactiveDegen: boolean;
+  diamondHands: boolean;
+  /** Transactions per day over the last 30 days. */
+  avgTxPerDay30d: number;
+  daysSinceLastTx: number | null;
+  activity: ActivityMetrics;
+  /** What the newest `classifiedTxCount` transactions did. */
+  txCategoryCounts: TransactionCounts;
+  classifiedTxCount: number;
+  solBalance: number;
+  solBonusApplied: number;
+  walletAgeDays: number;
+  walletAgeBonus: number;
+  rarityTier: RarityTier;
+  /** Assets that passed the spam filter. */
+  totalAssetsCount: number;
+  /** NFTs the spam filter excluded from every count. */
+  spamAssetCount: number;
+  solTier: 'shrimp' | 'dolphin' | 'whale' | null;
+  /** USD value of every priced fungible holding, SOL included; null without prices. */
+  portfolioUsd: number | null;
+  portfolioTier: 'shrimp' | 'dolphin' | 'whale' | null;
+  /** Most valuable holdings, largest first. */
+  topHoldings: ValuedHolding[];
+  /** SOL delegated from stake accounts the wallet controls, deactivating stake excluded. */
+  stakedSol: number;
+  stakeAccountCount: number;
+  /** Vote accounts the wallet delegates to. */
+  stakeValidators: string[];
+  isStaker: boolean;
+  /** DeFi protocols the wallet has used or holds positions in, most used first. */
+  defiProtocols: DefiProtocolUsage[];
+}
+
+export interface DASAsset {
+  id: string;
+  content?: {
+    metadata?: {
+      name?: string;
+      symbol?: string;
+      description?: string;
+    };
+    links?: {
+      image?: string;
+      external_url?: string;
+    };
+  };
+  authorities?: { address: string }[];
+  creators?: { address: string; verified?: boolean }[];
+  /** DAS leaves unverified collections out unless asked; when present they carry `verified: false`. */
+  grouping?: { group_key: string; group_value: string; verified?: boolean }[];
+  interface?: string;
+  token_info?: {
+    decimals?: number;
+    supply?: number;
+    balance?: number | string;
+    amount?: number | string;
+  };
+  compression?: {
+    compressed: boolean;
+  };
+}
+
+export type TokenProgram = keyof typeof TOKEN_PROGRAM_IDS;
+
+export interface TokenHolding {
+  mint: string;
+  uiAmount: number;
+  decimals: number;
+  /** Program that owns the token account(s) this balance was read from. */
+  tokenProgram: TokenProgram;
+}
+
+/** A native stake account the wallet controls as staker and/or withdrawer. */
+export interface StakeAccount {
+  address: string;
+  lamports: number;
+  /** Lamports delegated to `voter`; 0 for an undelegated account. */
+  delegatedLamports: number;
+  /** Vote account of the validator, null when undelegated. */
+  voter: string | null;
+  /** Epoch the delegation activated, null when undelegated. */
+  activationEpoch: number | null;
+  /** Set once the delegation has been deactivated. */
+  deactivating: boolean;
+}
+
+/** How much of the DAS asset listing a scan walked. */
+export interface DasScanStats {
+  pagesFetched: number;
+  itemsFetched: number;
+  duplicatesDropped: number;
+  /** `total` as reported by the provider on the last page, when it sends one. */
+  reportedTotal: number | null;
+  /** False when the page cap was hit before the listing ran out. */
+  complete: boolean;
+}
+
+/** Raw chain data a scan was derived from. */
+export interface ScanInputs {
+  address: string;
+  /** Cluster the data was read from; picks the token addresses traits match against. */
+  network: NetworkId;
+  balanceLamports: number;
+  signatures: ConfirmedSignatureInfo[];
+  assets: DASAsset[];
+  tokenHoldings: TokenHolding[];
+  /** Null when the endpoint refuses to list stake accounts. */
+  stakeAccounts: StakeAccount[] | null;
+  /** Owned DeFi position accounts by protocol id; null when the provider cannot list them. */
+  defiPositions: Record<string, string[]> | null;
+  /** Null when the provider had no DAS listing. */
+  dasStats: DasScanStats | null;
+  /** Sources where requests kept failing after retries, so the data stops short. */
+  truncatedSources: TruncatedSource[];
+  /**
+   * First transaction, looked up only when `signatures` fills the whole
+   * window. Null means the oldest entry of `signatures` is the first one.
+   */
+  firstActivity: FirstActivity | null;
+  /** Decoded newest transactions; null when the provider cannot decode them. */
+  transactions: TransactionSummary[] | null;
+  /** USD prices for the held mints that get valued; null when no price source answered. */
+  prices: PriceSnapshot | null;
+  /** Other wallets merged into these inputs by `mergeScanInputs`; absent for a single wallet. */
+  linkedAddresses?: string[];
+}
+
+export type TruncatedSource = 'signatures' | 'assets' | 'tokenAccounts' | 'transactions' | 'stakeAccounts' | 'defiPositions';
+
+/** Emitted while a scan runs. Fetch stages run concurrently, so events interleave. */
+export type ScanProgressEvent =
+  | { stage: 'signatures'; page: number; maxPages: number; fetched: number; done: boolean }
+  | { stage: 'das'; page: number; stats: DasScanStats | null; done: boolean }
+  | { stage: 'spl'; program: TokenProgram; completed: number; total: number }
+  | { stage: 'transactions'; fetched: number; total: number; done: boolean }
+  | { stage: 'wallet'; index: number; total: number; address: string }
+  | { stage: 'scoring' }
+  | { stage: 'done' };
+
+export interface ScanOptions {
+  onProgress?: (event: ScanProgressEvent) => void;
+  /** Defaults to `getPriceSource()`. */
+  priceSource?: PriceSource;
+}
+
+export interface WalletScanResult {
+  address: string;
+  score: number;
+  /** The rules behind `score`, item by item. */
+  scoreBreakdown: ScoreBreakdown;
+  traits: WalletTraits;
+  inputs: ScanInputs;
+  scannedAt: number;
+  provider: ChainDataProviderInfo;
+  /** Traits the provider could not supply; their values are defaults, not observations. */
+  unavailableTraits: (keyof WalletTraits)[];
+  /** Spam NFTs left out of the traits, for review. */
+  excludedAssets: ExcludedAsset[];
+  /** Unix milliseconds of the prices valuations were made with; null without prices. */
+  pricesAsOf: number | null;
+  /** Monthly activity scores reconstructed from the inputs, oldest first, ending with this scan. */
+  history: ScoreCheckpoint[];
+}
+
+const SOL_LAMPORTS = 1_000_000_000;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const SIGNATURE_PAGE_SIZE = 1000;
+const MAX_SIGNATURE_PAGES = 10;
+const MAX_SIGNATURES = MAX_SIGNATURE_PAGES * SIGNATURE_PAGE_SIZE;
+const MAX_DAS_PAGES = 50;
+// Enhanced transactions are billed per item, so only the recent ones are classified
+const MAX_CLASSIFIED_TRANSACTIONS = 500;
+// Airdropped spam can run to thousands of mints; beyond this many the rest go unpriced
+const MAX_PRICED_MINTS = 200;
+const TOP_HOLDINGS_COUNT = 5;
+const scanLog = createLogger('scan');
+const dasLog = createLogger('das');
+
+const DAS_ONLY_TRAITS: (keyof WalletTraits)[] = ['hasSeeker', 'blueChipCollections', 'nftCount', 'totalAssetsCount', 'spamAssetCount'];
+const PREORDER_COLLECTION = '3uejyD3ZwHDGwT8n6KctN3Stnjn9Nih79oXES9VqA38D';
+
+const MEME_MINT_LOOKUP: Record<string, keyof typeof MEME_COIN_MINTS> = Object.entries(MEME_COIN_MINTS).reduce(
+  (acc, [symbol, mint]) => {
+    acc[mint] = symbol as keyof typeof MEME_COIN_MINTS;
+    return acc;
+  },
+  {} as Record<string, keyof typeof MEME_COIN_MINTS>
+);
+const LST_ADDRESSES: string[] = Object.values(LST_MINTS);
+
+// Transaction Fetching (Aggressive - up to 10k txs). With `until`, stops at that signature (exclusive).
+async function fetchSignatures(
+  provider: ChainDataProvider,
+  address: string,
+  until?: string,
+  onProgress?: ScanOptions['onProgress']
+): Promise<{ signatures: ConfirmedSignatureInfo[]; truncated: boolean }> {
+  let allSignatures: ConfirmedSignatureInfo[] = [];
+  let lastSig: string | undefined = undefined;
+  let page = 0;
+  let truncated = false;
+
+  for (let i = 0; i < MAX_SIGNATURE_PAGES; i++) {
+    try {
+      const sigs = await provider.getSignatures(address, {
+        limit: SIGNATURE_PAGE_SIZE,
+        before: lastSig,
+        until,
+      });
+      page = i + 1;
+      if (sigs.length === 0) break;
+      allSignatures = [...allSignatures, ...sigs];
+      lastSig = sigs[sigs.length - 1].signature;
+      if (sigs.length < SIGNATURE_PAGE_SIZE) break;
+      onProgress?.({ stage: 'signatures', page, maxPages: MAX_SIGNATURE_PAGES, fetched: allSignatures.length, done: false });
+    } catch (e) {
+      scanLog.warn(`Signature fetch failed after retries at page ${i}`, e);
+      truncated = true;
+      break;
+    }
+  }
+  onProgress?.({ stage: 'signatures', page, maxPages: MAX_SIGNATURE_PAGES, fetched: allSignatures.length, done: true });
+  return { signatures: allSignatures, truncated };
+}
+
+/**
+ * Walks every DAS asset page. In cursor mode the listing is followed by
+ * `cursor` for as long as the provider returns one. If a full page comes back
+ * without one, the walk restarts from page 1 in page mode rather than picking
+ * up at a page number whose offset means nothing in cursor order. Items are
+ * deduped by id because page-based listings can shift while they are being read. Returns null stats when the provider
+ * has no DAS listing. A page that still fails after retries ends the walk and
+ * keeps what was read so far.
+ */
+async function fetchAssets(
+  provider: ChainDataProvider,
+  address: string,
+  onProgress?: ScanOptions['onProgress']
+): Promise<{ assets: DASAsset[]; stats: DasScanStats | null; truncated: boolean }> {
+  if (!provider.listAssets) {
+    onProgress?.({ stage: 'das', page: 0, stats: null, done: true });
+    return { assets: [], stats: null, truncated: false };
+  }
+  dasLog.info(`Fetching assets for ${address}`);
+
+  const byId = new Map<string, DASAsset>();
+  const stats: DasScanStats = { pagesFetched: 0, itemsFetched: 0, duplicatesDropped: 0, reportedTotal: null, complete: false };
+  let position: AssetPagePosition = provider.assetPagination === 'cursor' ? {} : { page: 1 };
+  let pageNumber = 1;
+  let truncated = false;
+
+  while (stats.pagesFetched < MAX_DAS_PAGES) {
+    let result: AssetPage;
+    try {
+      result = await provider.listAssets(address, position);
+    } catch (e) {
+      dasLog.warn(`Page ${stats.pagesFetched + 1} failed after retries; keeping ${byId.size} assets`, e);
+      truncated = true;
+      break;
+    }
+    const items = result.items || [];
+    stats.pagesFetched++;
+    stats.itemsFetched += items.length;
+    if (typeof result.total === 'number') stats.reportedTotal = result.total;
+    dasLog.debug(`Page ${stats.pagesFetched}: ${items.length} items`, { total: result.total ?? null, cursor: result.cursor ?? null });
+
+    items.forEach((item) => {
+      if (byId.has(item.id)) stats.duplicatesDropped++;
+      else byId.set(item.id, item);
+    });
+
+    if (result.cursor) {
+      if (items.length === 0 || ('cursor' in position && result.cursor === position.cursor)) {
+        stats.complete = true;
+        break;
+      }
+      position = { cursor: result.cursor };
+    } else {
+      if (items.length < result.limit) {
+        stats.complete = true;
+        break;
+      }
+      if (!('page' in position)) {
+        dasLog.warn(`No cursor after ${byId.size} assets; restarting the walk by page number`);
+        byId.clear();
+        stats.itemsFetched = 0;
+        stats.duplicatesDropped = 0;
+        pageNumber = 0;
+      }
+      pageNumber++;
+      position = { page: pageNumber };
+    }
+    onProgress?.({ stage: 'das', page: stats.pagesFetched, stats: { ...stats }, done: false });
+  }
+  onProgress?.({ stage: 'das', page: stats.pagesFetched, stats: { ...stats }, done: true });
+
+  if (!stats.complete && !truncated) {
+    dasLog.warn(`Stopped after ${MAX_DAS_PAGES} pages; asset counts are a lower bound.`);
+  }
+  return { assets: Array.from(byId.values()), stats, truncated };
+}
+
+/**
+ * Lists token balances under both the legacy Token program and Token-2022.
+ * A mint held in several accounts is merged into one holding. A program whose
+ * listing still fails after retries is skipped and reported as truncated.
+ */
+async function fetchTokenHoldings(
+  provider: ChainDataProvider,
+  address: string,
+  onProgress?: ScanOptions['onProgress']
+): Promise<{ holdings: TokenHolding[]; truncated: boolean }> {
+  const programs = Object.keys(TOKEN_PROGRAM_IDS) as TokenProgram[];
+  let completed = 0;
+  let truncated = false;
+  const perProgram = await Promise.all(
+    programs.map(async (program) => {
+      let holdings: TokenHolding[] = [];
+      try {
+        holdings = await provider.getTokenAccounts(address, program);
+      } catch (e) {
+        scanLog.warn(`Token account fetch failed after retries for ${program}`, e);
+        truncated = true;
+      }
+      onProgress?.({ stage: 'spl', program, completed: ++completed, total: programs.length });
+      return holdings;
+    })
+  );
+
+  const byMint = new Map<string, TokenHolding>();
+  perProgram.flat().forEach((holding) => {
+    const existing = byMint.get(holding.mint);
+    if (existing) existing.uiAmount += holding.uiAmount;
+    else byMint.set(holding.mint, { ...holding });
+  });
+  return { holdings: Array.from(byMint.values()), truncated };
+}
+
+/**
+ * Decodes the newest signatures for classification. Summaries in `known`
+ * (from a cached scan) are reused, so a refresh only decodes new transactions.
+ * A batch that still fails after retries ends the fetch with what was decoded.
+ */
+async function fetchTransactions(
+  provider: ChainDataProvider,
+  signatures: ConfirmedSignatureInfo[],
+  known: TransactionSummary[] | null,
+  onProgress?: ScanOptions['onProgress']
+): Promise<{ transactions: TransactionSummary[] | null; truncated: boolean }> {
+  if (!provider.getTransactions) {
+    onProgress?.({ stage: 'transactions', fetched: 0, total: 0, done: true });
+    return { transactions: null, truncated: false };
+  }
+
+  const wanted = signatures.slice(0, MAX_CLASSIFIED_TRANSACTIONS).map((s) => s.signature);
+  const bySignature = new Map((known ?? []).map((tx) => [tx.signature, tx]));
+  const missing = wanted.filter((signature) => !bySignature.has(signature));
+  let truncated = false;
+
+  for (let i = 0; i < missing.length; i += TRANSACTION_BATCH_SIZE) {
+    onProgress?.({ stage: 'transactions', fetched: i, total: missing.length, done: false });
+    try {
+      const batch = await provider.getTransactions(missing.slice(i, i + TRANSACTION_BATCH_SIZE));
+      batch.forEach((tx) => bySignature.set(tx.signature, tx));
+    } catch (e) {
+      scanLog.warn(`Transaction decode failed after retries at batch ${i / TRANSACTION_BATCH_SIZE}`, e);
+      truncated = true;
+      break;
+    }
+  }
+  onProgress?.({ stage: 'transactions', fetched: missing.length, total: missing.length, done: true });
+
+  const transactions = wanted.map((signature) => bySignature.get(signature)).filter(Boolean) as TransactionSummary[];
+  return { transactions, truncated };
+}
+
+/**
+ * Looks past the signature window when it is full. `known` is reused when it
+ * is already exact; a failed lookup keeps whatever was known before.
+ */
+async function resolveFirstActivity(
+  provider: ChainDataProvider,
+  address: string,
+  signatures: ConfirmedSignatureInfo[],
+  known: FirstActivity | null
+): Promise<FirstActivity | null> {
+  if (known?.exact) return known;
+  if (signatures.length < MAX_SIGNATURES) return known;
+  try {
+    return (await findFirstActivity(address, provider, { before: signatures[signatures.length - 1].signature })) ?? known;
+  } catch (e) {
+    scanLog.warn('First activity lookup failed after retries; wallet age comes from the signature window', e);
+    return known;
+  }
+}
+
+async function fetchPrices(
+  priceSource: PriceSource,
+  balanceLamports: number,
+  assets: DASAsset[],
+  holdings: TokenHolding[]
+): Promise<PriceSnapshot | null> {
+  const mints = collectFungibleBalances(balanceLamports / SOL_LAMPORTS, assets, holdings)
+    .slice(0, MAX_PRICED_MINTS)
+    .map((balance) => balance.mint);
+  try {
+    return await priceSource.getPrices(mints);
+  } catch (e) {
+    scanLog.warn(`Price lookup via ${priceSource.label} failed; token values are unknown`, e);
+    return null;
+  }
+}
+
+/**
+ * Stake accounts; a listing that still fails after retries (a persistent rate
+ * limit included) is reported as truncated, one the endpoint refuses to serve
+ * (see `isRpcMethodRejected`) leaves them unavailable.
+ */
+async function fetchStakeAccounts(
+  provider: ChainDataProvider,
+  address: string
+): Promise<{ accounts: StakeAccount[] | null; truncated: boolean }> {
+  try {
+    return { accounts: await provider.getStakeAccounts(address), truncated: false };
+  } catch (e) {
+    if (isRpcMethodRejected(e)) {
+      scanLog.info(`${provider.label} does not serve stake account lookups`);
+      return { accounts: null, truncated: false };
+    }
+    scanLog.warn('Stake account fetch failed after retries', e);
+    return { accounts: [], truncated: true };
+  }
+}
+
+/**
+ * Position accounts for every registry protocol that has them. A protocol
+ * whose lookup fails after retries is left out and reported as truncated;
+ * one the endpoint refuses to serve is just left out. Positions are null
+ * when the provider cannot list any of them.
+ */
+async function fetchDefiPositions(
+  provider: ChainDataProvider,
+  address: string
+): Promise<{ positions: Record<string, string[]> | null; truncated: boolean }> {
+  if (!provider.getProgramAccountsByAuthority) return { positions: null, truncated: false };
+
+  const locators = DEFI_PROTOCOLS.filter((protocol) => protocol.positions);
+  const positions: Record<string, string[]> = {};
+  let truncated = false;
+  let rejected = 0;
+  await Promise.all(
+    locators.map(async ({ id, positions: locator }) => {
+      try {
+        positions[id] = await provider.getProgramAccountsByAuthority(locator.programId, locator.authorityOffset, address);
+      } catch (e) {
+        if (isRpcMethodRejected(e)) {
+          rejected++;
+          scanLog.info(`${provider.label} does not serve DeFi position lookups for ${id}`);
+          return;
+        }
+        scanLog.warn(`DeFi position lookup failed after retries for ${id}`, e);
+        truncated = true;
+      }
+    })
+  );
+  return { positions: rejected === locators.length ? null : positions, truncated };
+}
+
+function collectTruncated(flags: Record<TruncatedSource, boolean>): TruncatedSource[] {
+  return (Object.keys(flags) as TruncatedSource[]).filter((source) => flags[source]);
+}
+
+/**
+ * Downloads the raw chain data for `address`. Throws on an invalid address or
+ * an unreadable balance; list fetches that keep failing are truncated instead.
+ */
+export async function fetchScanInputs(address: string, provider: ChainDataProvider, options: ScanOptions = {}): Promise<ScanInputs> {
+  // Validate up front so every provider rejects a bad address the same way
+  new PublicKey(address);
+
+  const [balanceLamports, signatures, tokens, das, stake, defi] = await Promise.all([
+    provider.getBalance(address),
+    // The first-activity lookup overlaps with the asset and token fetches
+    fetchSignatures(provider, address, undefined, options.onProgress).then(async (result) => {
+      const [firstActivity, decoded] = await Promise.all([
+        resolveFirstActivity(provider, address, result.signatures, null),
+        fetchTransactions(provider, result.signatures, null, options.onProgress),
+      ]);
+      return { ...result, firstActivity, decoded };
+    }),
+    fetchTokenHoldings(provider, address, options.onProgress),
+    fetchAssets(provider, address, options.onProgress),
+    fetchStakeAccounts(provider, address),
+    fetchDefiPositions(provider, address),
+  ]);
+  const prices = await fetchPrices(options.priceSource ?? getPriceSource(), balanceLamports, das.assets, tokens.holdings);
+
+  return {
+    address,
+    network: provider.network,
+    balanceLamports,
+    signatures: signatures.signatures,
+    assets: das.assets,
+    tokenHoldings: tokens.holdings,
+    stakeAccounts: stake.accounts,
+    defiPositions: defi.positions,
+    dasStats: das.stats,
+    truncatedSources: collectTruncated({
+      signatures: signatures.truncated,
+      assets: das.truncated,
+      tokenAccounts: tokens.truncated,
+      transactions: signatures.decoded.truncated,
+      stakeAccounts: stake.truncated,
+      defiPositions: defi.truncated,
+    }),
+    firstActivity: signatures.firstActivity,
+    transactions: signatures.decoded.transactions,
+    prices,
+  };
+}
+
+/**
+ * Refreshes previously fetched inputs. Balances, token accounts and assets are
+ * re-read in full; signatures are only fetched back to the newest one already
+ * known and merged in front of the stored history.
+ */
+export async function refreshScanInputs(previous: ScanInputs, provider: ChainDataProvider, options: ScanOptions = {}): Promise<ScanInputs> {
+  const { address } = previous;
+  const head = previous.signatures[0]?.signature;
+
+  const [balanceLamports, fresh, tokens, das, stake, defi] = await Promise.all([
+    provider.getBalance(address),
+    fetchSignatures(provider, address, head, options.onProgress),
+    fetchTokenHoldings(provider, address, options.onProgress),
+    fetchAssets(provider, address, options.onProgress),
+    fetchStakeAccounts(provider, address),
+    fetchDefiPositions(provider, address),
+  ]);
+
+  const known = new Set(fresh.signatures.map((s) => s.signature));
+  const signatures = [...fresh.signatures, ...previous.signatures.filter((s) => !known.has(s.signature))]
+    .slice(0, MAX_SIGNATURES);
+
+  // A history that used to fit the window already ended at the first transaction
+  const previousOldest = previous.signatures[previous.signatures.length - 1];
+  const previousComplete = previous.signatures.length < MAX_SIGNATURES && !previous.truncatedSources?.includes('signatures');
+  const knownFirst = previous.firstActivity ?? (previousComplete && previousOldest ? toFirstActivity(previousOldest, 'scan') : null);
+  const [firstActivity, decoded] = await Promise.all([
+    resolveFirstActivity(provider, address, signatures, knownFirst),
+    fetchTransactions(provider, signatures, previous.transactions ?? null, options.onProgress),
+  ]);
+  const prices = await fetchPrices(options.priceSource ?? getPriceSource(), balanceLamports, das.assets, tokens.holdings);
+
+  return {
+    address,
+    network: provider.network,
+    balanceLamports,
+    signatures,
+    assets: das.assets,
+    tokenHoldings: tokens.holdings,
+    stakeAccounts: stake.accounts,
+    defiPositions: defi.positions,
+    dasStats: das.stats,
+    truncatedSources: collectTruncated({
+      // A gap in the stored history stays a gap after merging
+      signatures: fresh.truncated || Boolean(previous.truncatedSources?.includes('signatures')),
+      assets: das.truncated,
+      tokenAccounts: tokens.truncated,
+      transactions: decoded.truncated,
+      stakeAccounts: stake.truncated,
+      defiPositions: defi.truncated,
+    }),
+    firstActivity,
+    transactions: decoded.transactions,
+    prices,
+  };
+}
+
+/** Traits left at their defaults because the provider could not supply their data. */
+export function getUnavailableTraits(inputs: ScanInputs): (keyof WalletTraits)[] {
+  const unavailable: (keyof WalletTraits)[] = inputs.dasStats ? [] : [...DAS_ONLY_TRAITS];
+  if (!inputs.transactions) unavailable.push('txCategoryCounts');
+  if (!inputs.prices) unavailable.push('isMemeLord', 'portfolioUsd');
+  if (!inputs.stakeAccounts) unavailable.push('stakedSol', 'isStaker');
+  if (!inputs.defiPositions) unavailable.push('defiProtocols', 'isDeFiKing');
+  return unavailable;
+}
+
+function isPreorderAsset(asset: DASAsset, tokenAddresses: TokenAddresses): boolean {
+  const name = asset.content?.metadata?.name || '';
+  return (
+    asset.id === tokenAddresses.CHAPTER2_PREORDER ||
+    name.includes('Chapter 2') ||
+    name.includes('Seeker Preorder') ||
+    (asset.grouping || []).some((g) => g.group_value === PREORDER_COLLECTION)
+  );
+}
+
+/**
+ * Derives traits from raw scan inputs. Pure: the same inputs and `now`
+ * always produce the same traits, so it can run in scripts and tests.
+ */
+export function deriveTraits(inputs: ScanInputs, now: number = Date.now()): WalletTraits {
+  const { assets, signatures, tokenHoldings } = inputs;
+  const usdPrices = inputs.prices?.usd ?? {};
+  const tokenAddresses = getTokenAddresses(inputs.network);
+
+  const solBalance = inputs.balanceLamports / SOL_LAMPORTS;
+  const activeStake = (inputs.stakeAccounts ?? []).filter((account) => account.voter && !account.deactivating);
+  const stakedSol = activeStake.reduce((sum, account) => sum + account.delegatedLamports, 0) / SOL_LAMPORTS;
+  const stakeValidators = Array.from(new Set(activeStake.map((account) => account.voter)));
+  // Stake is still the holder's SOL; without it long-term stakers would rank as shrimp
+  const totalSol = solBalance + stakedSol;
+  const txCount = signatures.length;
+  let firstTxTime = now;
+  if (inputs.firstActivity?.blockTime) {
+    firstTxTime = inputs.firstActivity.blockTime * 1000;
+  } else if (signatures.length > 0) {
+    const oldest = signatures[signatures.length - 1];
+    if (oldest.blockTime) firstTxTime = oldest.blockTime * 1000;
+  }
+  const walletAgeDays = Math.floor((now - firstTxTime) / DAY_MS);
+  const activity = computeActivityMetrics(signatures, now, txCount >= MAX_SIGNATURES);
+  const avgTxPerDay30d = activity.txCount30d / 30;
+  const transactions = inputs.transactions ?? [];
+  const txCategoryCounts = countTransactionCategories(transactions, [inputs.address, ...(inputs.linkedAddresses ?? [])]);
+
+  const { kept, excluded } = partitionSpamAssets(assets);
+  const totalAssetsCount = kept.length;
+
+  const foundAsset = kept.find((asset) => isPreorderAsset(asset, tokenAddresses));
+  if (foundAsset) dasLog.debug('Preorder asset found', { id: foundAsset.id, name: foundAsset.content?.metadata?.name });
+
+  let nftCount = 0;
+  let uniqueTokenCount = 0;
+  let hasSeeker = false;
+  let hasPreorder = !!foundAsset;
+  let hasLstExposure = false;
+  const memeHoldingsSet = new Set<string>();
+
+  // Analysis Loop
+  kept.forEach((asset) => {
+    const content = asset.content || {};
+    const metadata = content.metadata || {};
+    const rawName = metadata.name || asset.id || '';
+    const name = rawName.toLowerCase();
+    const mint = asset.id;
+
+    // Seeker Genesis Detection
+    const grouping = asset.grouping || [];
+    const collectionGroup = grouping.find((g) => g.group_key === 'collection');
+    const authorities = asset.authorities || [];
+    const creators = asset.creators || [];
+
+    const isSeekerGenesis =
+      collectionGroup?.group_value === tokenAddresses.SEEKER_GENESIS_COLLECTION ||
+      authorities.some((auth) => auth.address === tokenAddresses.SEEKER_MINT_AUTHORITY) ||
+      creators.some((c) => c.address === tokenAddresses.SEEKER_MINT_AUTHORITY) ||
+      (name.includes('seeker') && (name.includes('genesis') || name.includes('citizen')));
+
+    if (isSeekerGenesis) hasSeeker = true;
+    if (isPreorderAsset(asset, tokenAddresses)) hasPreorder = true;
+
+    // NFT Logic (Decimals 0)
+    const iface = (asset.interface || '').toUpperCase();
+    const tokenInfo = asset.token_info || {};
+    const decimals = tokenInfo.decimals ?? (isFungibleAsset(asset) ? 9 : 0);
+
+    const isExplicitNFT = iface.includes('NFT') || iface.includes('PROGRAMMABLE') || iface === 'CUSTOM' || asset.compression?.compressed === true;
+    const isLikelyNFT = decimals === 0 && (metadata.name || content.links?.image || grouping.length > 0);
+    const isKnownFungible = iface === 'FUNGIBLETOKEN' || iface === 'FUNGIBLEASSET' || ((tokenInfo.supply || 0) > 1 && decimals > 0);
+
+    if (isExplicitNFT || (isLikelyNFT && !isKnownFungible)) {
+      nftCount++;
+    } else {
+      uniqueTokenCount++;
+    }
+
+    if (LST_ADDRESSES.includes(mint)) {
+      hasLstExposure = true;
+    }
+
+    const memeSymbol = MEME_MINT_LOOKUP[mint];
+    if (memeSymbol) {
+      const balanceRaw = tokenInfo.balance ?? tokenInfo.amount ?? 0;
+      const numericBalance = typeof balanceRaw === 'number' ? balanceRaw : parseFloat(balanceRaw || '0');
+      const uiAmount = decimals > 0 ? numericBalance / Math.pow(10, decimals) : numericBalance;
+      if (uiAmount > 0) memeHoldingsSet.add(memeSymbol);
+    }
+  });
+
+  // SPL Fallback Check (over every asset, so spam is not counted back in through its token account)
+  const assetIds = new Set(assets.map((a) => a.id));
+  tokenHoldings.forEach((holding) => {
+    if (holding.uiAmount <= 0) return;
+    const { mint } = holding;
+    if (mint === tokenAddresses.CHAPTER2_PREORDER) hasPreorder = true;
+    if (LST_ADDRESSES.includes(mint)) hasLstExposure = true;
+    const memeSymbol = MEME_MINT_LOOKUP[mint];
+    if (memeSymbol) memeHoldingsSet.add(memeSymbol);
+    if (!assetIds.has(mint)) {
+      uniqueTokenCount++;
+      // If it has decimals 0 and was missed, it's an NFT
+      if (holding.decimals === 0) nftCount++;
+    }
+  });
+
+  const hasCombo = hasSeeker && hasPreorder;
+  const memeCoinsHeld = Array.from(memeHoldingsSet);
+  const portfolio = valuePortfolio(collectFungibleBalances(totalSol, assets, tokenHoldings), usdPrices);
+  const memeValueUSD = portfolio.holdings
+    .filter((holding) => MEME_MINT_LOOKUP[holding.mint])
+    .reduce((sum, holding) => sum + holding.usd, 0);
+  const isMemeLord = memeValueUSD >= 10;
+  const portfolioUsd = inputs.prices ? portfolio.totalUsd : null;
+  const portfolioTier =
+    portfolioUsd === null ? null : portfolioUsd >= 1500 ? 'whale' : portfolioUsd >= 150 ? 'dolphin' : portfolioUsd >= 15 ? 'shrimp' : null;
+  const defiProtocols = detectDefiUsage(inputs.transactions ?? [], inputs.defiPositions ?? {});
+  const hasOpenPosition = defiProtocols.some((protocol) => protocol.positionCount > 0);
+  const isDeFiKing = hasLstExposure || hasOpenPosition || defiProtocols.length >= SCORING.DEFI_KING_MIN_PROTOCOLS;
+
+  const solTier =
+    totalSol >= 10 ? 'whale' : totalSol >= 1 ? 'dolphin' : totalSol >= 0.1 ? 'shrimp' : null;
+
+  const solBonusApplied = totalSol >= 5 ? 150 : totalSol >= 1 ? 70 : totalSol >= 0.1 ? 30 : 0;
+  const walletAgeBonus = Math.min(Math.floor((walletAgeDays / 365) * 100), 300);
+
+  const traits: WalletTraits = {
+    hasSeeker, hasPreorder, hasCombo, isDeFiKing,
+    blueChipCollections: collectBlueChipHoldings(kept),
+    uniqueTokenCount, nftCount, txCount, memeCoinsHeld, isMemeLord,
+    hyperactiveDegen: avgTxPerDay30d >= SCORING.HYPERACTIVE_THRESHOLD_30D,
+    diamondHands: walletAgeDays >= SCORING.DIAMOND_HANDS_DAYS,
+    avgTxPerDay30d, daysSinceLastTx: daysSince(activity.lastActivityAt, now), activity,
+    txCategoryCounts, classifiedTxCount: transactions.length,
+    solBalance, solBonusApplied, walletAgeDays, walletAgeBonus,
+    rarityTier: 'common', totalAssetsCount, spamAssetCount: excluded.length,
+    solTier,
+    portfolioUsd, portfolioTier,
+    topHoldings: portfolio.holdings.slice(0, TOP_HOLDINGS_COUNT),
+    stakedSol,
+    stakeAccountCount: activeStake.length,
+    stakeValidators,
+    isStaker: stakedSol >= SCORING.STAKER_MIN_SOL,
+    defiProtocols,
+  };
+
+  // Unlogged: the score history derives traits once per checkpoint
+  traits.rarityTier = getRarityTier(getScoreBreakdown(traits).total);
+  return traits;
+}
+
+// The scan's own checkpoint is activity-only too, so the line compares like with like
+function reconstructScoreHistory(inputs: ScanInputs, now: number): ScoreCheckpoint[] {
+  return [...getMonthlyCheckpoints(getFirstActivityTime(inputs), now), now].map((time) => {
+    const past = deriveTraits(activityAsOf(inputs, time), time);
+    return {
+      time,
+      score: getScoreBreakdown(past).total,
+      rarityTier: past.rarityTier,
+      partial: isCheckpointPartial(inputs, time),
+    };
+  });
+}
+
+/** Scores already-fetched inputs; shared by `scanWallet` and anything that re-derives from stored inputs. */
+export function buildScanResult(inputs: ScanInputs, provider: ChainDataProviderInfo, now: number = Date.now()): WalletScanResult {
+  const traits = deriveTraits(inputs, now);
+  const scoreBreakdown = calculateScore(traits);
+  const score = scoreBreakdown.total;
+  const { excluded } = partitionSpamAssets(inputs.assets);
+  dasLog.info(
+    `${traits.totalAssetsCount} assets kept across ${inputs.dasStats?.pagesFetched ?? 0} page(s), ${excluded.length} excluded as spam`,
+    excluded.length > 0 ? { excluded: excluded.map((asset) => asset.id) } : undefined
+  );
+  scanLog.info(`Scored ${inputs.address}: ${score}`, { nfts: traits.nftCount, txCount: traits.txCount, rarity: traits.rarityTier });
+  return {
+    address: inputs.address,
+    score,
+    scoreBreakdown,
+    traits,
+    inputs,
+    scannedAt: now,
+    provider: { id: provider.id, label: provider.label },
+    unavailableTraits: getUnavailableTraits(inputs),
+    excludedAssets: excluded,
+    pricesAsOf: inputs.prices?.fetchedAt ?? null,
+    history: reconstructScoreHistory(inputs, now),
+  };
+}
+
+/** Runs a full identity scan for `address`. Framework-free: usable from scripts, servers and tests. */
+export async function scanWallet(address: string, provider: ChainDataProvider, options: ScanOptions = {}): Promise<WalletScanResult> {
+  scanLog.info(`Scanning ${address} via ${provider.label}`);
+  const inputs = await fetchScanInputs(address, provider, options);
+  options.onProgress?.({ stage: 'scoring' });
+  const result = buildScanResult(inputs, provider);
+  options.onProgress?.({ stage: 'done' });
+  return result;
+}
@@ -0,0 +1,112 @@
+import { Texture } from 'three';
+import { buildScanResult } from '@/lib/walletScanner';
+import type { ScanInputs, WalletScanResult } from '@/lib/walletScanner';
+import type { ChainDataProviderInfo } from '@/lib/chainData';
+import { createCanvasTexture, prepareTexture, toPlanetTextures } from '@/lib/solarSystemGenerator';
+import type { PlanetSurface, PlanetTextures } from '@/lib/solarSystemGenerator';
+import type { TextureKind } from '@/lib/proceduralTextures';
+import { createLogger, recordLogEntry } from '@/lib/logger';
+import type { WorkerMessage, WorkerRequest, WorkerTaskName, WorkerTasks } from './protocol';
+
+export type { WorkerLogMessage, WorkerMessage, WorkerRequest, WorkerResponse, WorkerTaskName, WorkerTasks } from './protocol';
+
+interface PendingTask {
+  resolve: (result: WorkerTasks[WorkerTaskName]['result']) => void;
+  reject: (error: Error) => void;
+}
+
+const scanLog = createLogger('scan');
+
+const pending = new Map<number, PendingTask>();
+let nextTaskId = 1;
+let worker: Worker | null = null;
+// Set once the worker cannot be created or dies; every later task runs inline
+let workerUnavailable = typeof Worker === 'undefined';
+
+function failPending(error: Error) {
+  pending.forEach((task) => task.reject(error));
+  pending.clear();
+}
+
+function getWorker(): Worker | null {
+  if (workerUnavailable) return null;
+  if (!worker) {
+    try {
+      worker = new Worker(new URL('./prism.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+      scanLog.warn('Worker could not start, running on the main thread', error);
+      workerUnavailable = true;
+      return null;
+    }
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const response = event.data;
+      if (response.type === 'log') {
+        const { id: _workerId, ...entry } = response.entry;
+        recordLogEntry(entry);
+        return;
+      }
+      const task = pending.get(response.id);
+      if (!task) return;
+      pending.delete(response.id);
+      if (response.ok === false) task.reject(new Error(response.error));
+      else task.resolve(response.result);
+    };
+    worker.onerror = (event) => {
+      scanLog.warn(`Worker crashed, running on the main thread from now on: ${event.message}`);
+      workerUnavailable = true;
+      worker?.terminate();
+      worker = null;
+      failPending(new Error(event.message || 'Worker crashed'));
+    };
+  }
+  return worker;
+}
+
+/**
+ * Runs `task` in the shared worker. Resolves null when there is no worker to
+ * run it on (unsupported, failed to start or crashed), leaving the caller to
+ * run it on the main thread. Errors thrown by the task itself reject; they
+ * would fail the same way inline.
+ */
+async function runTask<K extends WorkerTaskName>(task: K, params: WorkerTasks[K]['params']): Promise<WorkerTasks[K]['result'] | null> {
+  const target = getWorker();
+  if (!target) return null;
+
+  const id = nextTaskId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, {
+      resolve: (value) => resolve(value as WorkerTasks[K]['result']),
+      reject: (error) => (workerUnavailable ? resolve(null) : reject(error)),
+    });
+    target.postMessage({ id, task, params } as WorkerRequest);
+  });
+}
+
+/** `buildScanResult` off the main thread: spam filtering, the asset analysis loop and scoring. */
+export async function analyzeScanInputs(
+  inputs: ScanInputs,
+  provider: ChainDataProviderInfo,
+  now: number = Date.now()
+): Promise<WalletScanResult> {
+  const info = { id: provider.id, label: provider.label };
+  const result = await runTask('analyzeScan', { inputs, provider: info, now });
+  return result ?? buildScanResult(inputs, info, now);
+}
+
+const supportsOffscreenCanvas =
+  typeof OffscreenCanvas !== 'undefined' && typeof OffscreenCanvas.prototype.transferToImageBitmap === 'function';
+
+/** A procedural texture painted on an OffscreenCanvas in the worker, or on a DOM canvas without one. */
+export async function loadTexture(kind: TextureKind, seed: number): Promise<Texture> {
+  if (!supportsOffscreenCanvas) return createCanvasTexture(kind, seed);
+  const bitmap = await runTask('paintTexture', { kind, seed });
+  if (!bitmap) return createCanvasTexture(kind, seed);
+  const texture = new Texture(bitmap);
+  // Bitmaps upload without the flip canvases get; the noise looks the same either way
+  texture.flipY = false;
+  return prepareTexture(texture);
+}
+
+export async function loadPlanetTextures(surface: PlanetSurface, seed: number): Promise<PlanetTextures> {
+  return toPlanetTextures(surface, await loadTexture(surface, seed));
+}
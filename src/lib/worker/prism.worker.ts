@@ -0,0 +1,36 @@
+import { buildScanResult } from '@/lib/walletScanner';
+import { drawTexture, TEXTURE_SIZES } from '@/lib/proceduralTextures';
+import { setConsoleLogLevel, subscribeToLogs } from '@/lib/logger';
+import type { WorkerLogMessage, WorkerRequest, WorkerResponse, WorkerTaskName, WorkerTasks } from './protocol';
+
+// The client replays worker entries into the main thread's log, which decides what reaches the console
+setConsoleLogLevel('silent');
+subscribeToLogs((entry) => self.postMessage({ type: 'log', entry } satisfies WorkerLogMessage));
+
+type Handlers = { [K in WorkerTaskName]: (params: WorkerTasks[K]['params']) => WorkerTasks[K]['result'] };
+
+const handlers: Handlers = {
+  analyzeScan: ({ inputs, provider, now }) => buildScanResult(inputs, provider, now),
+  paintTexture: ({ kind, seed }) => {
+    const size = TEXTURE_SIZES[kind];
+    const canvas = new OffscreenCanvas(size, size);
+    drawTexture(canvas.getContext('2d')!, kind, seed);
+    return canvas.transferToImageBitmap();
+  },
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  let response: WorkerResponse;
+  const transfer: Transferable[] = [];
+  try {
+    const handler = handlers[request.task] as (params: WorkerRequest['params']) => WorkerTasks[WorkerTaskName]['result'];
+    const result = handler(request.params);
+    // Bitmaps move to the main thread instead of being copied
+    if (result instanceof ImageBitmap) transfer.push(result);
+    response = { type: 'result', id: request.id, ok: true, result };
+  } catch (error) {
+    response = { type: 'result', id: request.id, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response, { transfer });
+};
@@ -0,0 +1,36 @@
+import type { ChainDataProviderInfo } from '@/lib/chainData';
+import type { ScanInputs, WalletScanResult } from '@/lib/walletScanner';
+import type { TextureKind } from '@/lib/proceduralTextures';
+import type { LogEntry } from '@/lib/logger';
+
+/** Every job the worker runs: what it is sent and what it answers with. */
+export interface WorkerTasks {
+  /** `buildScanResult` over fetched inputs: spam filtering, asset analysis and scoring. */
+  analyzeScan: {
+    params: { inputs: ScanInputs; provider: ChainDataProviderInfo; now: number };
+    result: WalletScanResult;
+  };
+  /** One procedural texture, painted on an OffscreenCanvas. */
+  paintTexture: {
+    params: { kind: TextureKind; seed: number };
+    result: ImageBitmap;
+  };
+}
+
+export type WorkerTaskName = keyof WorkerTasks;
+
+export type WorkerRequest = {
+  [K in WorkerTaskName]: { id: number; task: K; params: WorkerTasks[K]['params'] };
+}[WorkerTaskName];
+
+export type WorkerResponse =
+  | { type: 'result'; id: number; ok: true; result: WorkerTasks[WorkerTaskName]['result'] }
+  | { type: 'result'; id: number; ok: false; error: string };
+
+/** Sent for every entry logged inside the worker, so it reaches the main thread's log. */
+export interface WorkerLogMessage {
+  type: 'log';
+  entry: LogEntry;
+}
+
+export type WorkerMessage = WorkerResponse | WorkerLogMessage;
@@ -1,15 +1,14 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { createBrowserRouter, RouterProvider } from 'react-router-dom';
-import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
-import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
 import App from './App';
 import Index from './pages/Index';
+import Compare from './pages/Compare';
 import NotFound from './pages/NotFound';
 import './index.css';
 import '@solana/wallet-adapter-react-ui/styles.css';
 import { Buffer } from 'buffer';
-import { HELIUS_CONFIG } from './constants';
+import { SolanaProviders } from './components/SolanaProviders';
 
 declare global {
   interface Window {
@@ -31,6 +30,7 @@ const router = createBrowserRouter([
     element: <App />,
     children: [
       { index: true, element: <Index /> },
+      { path: 'compare', element: <Compare /> },
       { path: '*', element: <NotFound /> },
     ],
   },
@@ -41,18 +41,10 @@ const router = createBrowserRouter([
   } as any,
 });
 
-// Use empty wallets array - Phantom auto-registers via Standard Wallet API
-const wallets = [];
-const endpoint = HELIUS_CONFIG.RPC_URL;
-
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <ConnectionProvider endpoint={endpoint}>
-      <WalletProvider wallets={wallets} autoConnect>
-        <WalletModalProvider>
-          <RouterProvider router={router} />
-        </WalletModalProvider>
-      </WalletProvider>
-    </ConnectionProvider>
+    <SolanaProviders>
+      <RouterProvider router={router} />
+    </SolanaProviders>
   </React.StrictMode>
 );
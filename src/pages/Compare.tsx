@@ -0,0 +1,229 @@
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { ArrowLeft, Loader2, Plus, X, AlertCircle, Columns2 } from "lucide-react";
+import { SolarSystem } from "@/components/SolarSystem";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useWalletComparison } from "@/hooks/useWalletComparison";
+import type { ComparedWallet } from "@/hooks/useWalletComparison";
+import { useDomainResolver } from "@/hooks/useDomainResolver";
+import { useNetwork } from "@/hooks/useNetwork";
+import { getChainDataProvider } from "@/lib/chainData";
+import { createCameraSync } from "@/lib/cameraSync";
+import type { CameraSync } from "@/lib/cameraSync";
+import { resolveScanTarget } from "@/lib/addressInput";
+import { compareScoreComponents, compareTraits } from "@/lib/walletComparison";
+import type { ComparisonRow } from "@/lib/walletComparison";
+import { COMPARE_CONFIG } from "@/constants";
+
+const MIN_WALLETS = 2;
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+function readWalletParam(value: string | null): string[] {
+  const addresses = (value ?? "").split(",").map((address) => address.trim()).filter(Boolean);
+  // Addresses key the viewports and scans, so a repeated one is dropped
+  return Array.from(new Set(addresses)).slice(0, COMPARE_CONFIG.MAX_WALLETS);
+}
+
+function withMinimumSlots(addresses: string[]): string[] {
+  return [...addresses, ...Array(Math.max(0, MIN_WALLETS - addresses.length)).fill("")];
+}
+
+function ComparisonTable({ title, note, rows, wallets }: { title: string; note?: string; rows: ComparisonRow[]; wallets: ComparedWallet[] }) {
+  return (
+    <section className="compare-table glass-panel">
+      <h2 className="compare-table-title">{title}</h2>
+      {note && <p className="compare-table-note">{note}</p>}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead />
+            {wallets.map((wallet) => (
+              <TableHead key={wallet.address} className="font-mono">{shortenAddress(wallet.address)}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key} className={row.key === "total" ? "compare-total-row" : undefined}>
+              <TableCell className="capitalize text-white/60">{row.label}</TableCell>
+              {row.values.map((value, index) => (
+                <TableCell key={wallets[index].address} className={row.leader === index ? "compare-leader" : undefined}>
+                  {value}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </section>
+  );
+}
+
+function CompareViewport({ wallet, cameraSync }: { wallet: ComparedWallet; cameraSync: CameraSync }) {
+  const { result } = wallet;
+  return (
+    <div className="compare-viewport">
+      <SolarSystem traits={result?.traits ?? null} walletAddress={wallet.address} cameraSync={cameraSync} />
+      <div className="compare-viewport-label glass-panel">
+        <span className="font-mono">{shortenAddress(wallet.address)}</span>
+        {wallet.isLoading && <Loader2 className="h-3 w-3 animate-spin" />}
+        {wallet.error && (
+          <span className="flex items-center gap-1 text-red-400">
+            <AlertCircle className="h-3 w-3" />
+            {wallet.error}
+          </span>
+        )}
+        {result && (
+          <>
+            <span className={`tier-dot ${result.traits.rarityTier}`} />
+            <span className="uppercase">{result.traits.rarityTier}</span>
+            <span className={`score-num-mini ${result.traits.rarityTier}`}>{result.score}</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Several identities side by side: split viewports on one shared orbit, then a trait and score diff. */
+const Compare = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const addresses = useMemo(() => readWalletParam(searchParams.get("wallets")), [searchParams]);
+  const network = useNetwork();
+  const chainProvider = useMemo(() => getChainDataProvider(network), [network]);
+  const wallets = useWalletComparison(addresses, chainProvider);
+  const cameraSync = useMemo(() => createCameraSync(), []);
+
+  const { connection } = useConnection();
+  const domainResolver = useDomainResolver();
+  const [drafts, setDrafts] = useState(() => withMinimumSlots(addresses));
+  const [draftErrors, setDraftErrors] = useState<(string | null)[]>([]);
+  const [isResolving, setIsResolving] = useState(false);
+
+  // Tables appear once every wallet has scanned; a failed scan leaves nothing to compare it with
+  const comparison = useMemo(() => {
+    const results = wallets.flatMap((wallet) => (wallet.result ? [wallet.result] : []));
+    if (results.length < MIN_WALLETS || results.length !== wallets.length) return null;
+    const traitsList = results.map((result) => result.traits);
+    const scoreRows = compareScoreComponents(traitsList, results.map((result) => result.score));
+    // The section with the widest spread explains most of the score gap
+    const biggestGap = scoreRows
+      .filter((row) => row.key !== "total")
+      .reduce((widest, row) => ((row.spread ?? 0) > (widest.spread ?? 0) ? row : widest));
+    return {
+      scoreRows,
+      scoreNote: biggestGap.spread ? `Biggest gap: ${biggestGap.label} (${Math.round(biggestGap.spread)} points)` : undefined,
+      traitRows: compareTraits(traitsList),
+    };
+  }, [wallets]);
+
+  const setDraft = (index: number, value: string) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? value : draft)));
+    setDraftErrors((prev) => prev.map((error, i) => (i === index ? null : error)));
+  };
+
+  const handleCompare = async () => {
+    setIsResolving(true);
+    try {
+      const targets = await Promise.all(
+        drafts.map((draft) => (draft.trim() ? resolveScanTarget(draft, { connection, resolver: domainResolver }) : null))
+      );
+      setDraftErrors(targets.map((target) => (target && target.ok === false ? target.error : null)));
+      if (targets.some((target) => target && target.ok === false)) return;
+
+      const resolved = Array.from(new Set(targets.flatMap((target) => (target && target.ok ? [target.address] : []))));
+      if (resolved.length < MIN_WALLETS) {
+        setDraftErrors(drafts.map((_, i) => (i === drafts.length - 1 ? "Enter at least two different wallets." : null)));
+        return;
+      }
+      setSearchParams({ wallets: resolved.join(",") });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="compare-shell">
+      <nav className="compare-nav">
+        <Link to="/" className="flex items-center gap-2 text-white/60 hover:text-white text-sm">
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Link>
+        <h1 className="flex items-center gap-2 text-sm font-bold uppercase tracking-widest text-white/80">
+          <Columns2 className="h-4 w-4" />
+          Compare identities
+        </h1>
+      </nav>
+
+      <form
+        className="compare-form glass-panel"
+        onSubmit={(event) => {
+          event.preventDefault();
+          handleCompare();
+        }}
+      >
+        {drafts.map((draft, index) => (
+          <div key={index} className="compare-input">
+            <div className="flex gap-2">
+              <Input
+                value={draft}
+                onChange={(event) => setDraft(index, event.target.value)}
+                placeholder={`Wallet ${index + 1}: address, .sol or explorer link`}
+                aria-invalid={Boolean(draftErrors[index])}
+              />
+              {drafts.length > MIN_WALLETS && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    setDrafts((prev) => prev.filter((_, i) => i !== index));
+                    setDraftErrors((prev) => prev.filter((_, i) => i !== index));
+                  }}
+                  aria-label={`Remove wallet ${index + 1}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            {draftErrors[index] && <p className="address-input-message error">{draftErrors[index]}</p>}
+          </div>
+        ))}
+        <div className="flex gap-2">
+          {drafts.length < COMPARE_CONFIG.MAX_WALLETS && (
+            <Button type="button" variant="secondary" onClick={() => setDrafts((prev) => [...prev, ""])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add wallet
+            </Button>
+          )}
+          <Button type="submit" disabled={isResolving}>
+            {isResolving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Compare"}
+          </Button>
+        </div>
+      </form>
+
+      {wallets.length > 0 && (
+        <div className="compare-grid" style={{ gridTemplateColumns: `repeat(${Math.min(wallets.length, 2)}, minmax(0, 1fr))` }}>
+          {wallets.map((wallet) => (
+            <CompareViewport key={wallet.address} wallet={wallet} cameraSync={cameraSync} />
+          ))}
+        </div>
+      )}
+
+      {comparison && (
+        <div className="compare-tables">
+          <ComparisonTable title="Score by section" note={comparison.scoreNote} rows={comparison.scoreRows} wallets={wallets} />
+          <ComparisonTable title="Traits" rows={comparison.traitRows} wallets={wallets} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Compare;
@@ -1,9 +1,25 @@
-import { useEffect, useMemo, useState, useCallback } from "react";
+import { useEffect, useMemo, useState, useCallback, useRef } from "react";
 import { SolarSystem } from "@/components/SolarSystem";
+import { SpamReviewDialog } from "@/components/SpamReviewDialog";
+import { DebugDrawer } from "@/components/DebugDrawer";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { ScoreTimeline } from "@/components/ScoreTimeline";
+import { ScoreBreakdownPanel } from "@/components/ScoreBreakdownPanel";
 import { useWalletData } from "@/hooks/useWalletData";
-import { useWallet } from "@solana/wallet-adapter-react";
+import { useLinkedIdentity } from "@/hooks/useLinkedIdentity";
+import { useNetwork } from "@/hooks/useNetwork";
+import { getChainDataProvider } from "@/lib/chainData";
+import type { WalletTraits } from "@/hooks/useWalletData";
+import type { TruncatedSource } from "@/lib/walletScanner";
+import { useDomainResolver, usePrimaryDomain } from "@/hooks/useDomainResolver";
+import { describeAddressSource, parseAddressInput, resolveScanTarget } from "@/lib/addressInput";
+import { describeScanProgress, estimateRemainingMs, getScanProgressFraction } from "@/lib/scanProgress";
+import type { ScanProgressState } from "@/lib/scanProgress";
+import { Link } from "react-router-dom";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui";
 import { mintIdentityPrism } from "@/lib/mintIdentityPrism";
+import { createLogger } from "@/lib/logger";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -18,20 +34,78 @@ import {
   Globe,
   Moon,
   Database,
+  Layers,
+  Link2,
+  X,
+  Bug,
+  Columns2,
+  TrendingUp,
 } from "lucide-react";
 
+interface InputMessage {
+  tone: "error" | "hint";
+  text: string;
+}
+
 function shortenAddress(address?: string | null) {
   if (!address || address === "0xDemo...Wallet") return "Cosmic Explorer";
   return `${address.slice(0, 4)}…${address.slice(-4)}`;
 }
 
+function formatUsd(value: number) {
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 10_000) return `$${(value / 1_000).toFixed(1)}K`;
+  return `$${value.toFixed(value >= 100 ? 0 : 2)}`;
+}
+
 type ViewState = "landing" | "scanning" | "ready";
 
+const scanLog = createLogger("scan");
+const mintLog = createLogger("mint");
+
+const TRUNCATION_LABELS: Record<TruncatedSource, string> = {
+  signatures: "transactions",
+  assets: "assets",
+  tokenAccounts: "token accounts",
+  transactions: "transaction details",
+  stakeAccounts: "stake accounts",
+  defiPositions: "DeFi positions",
+};
+
+// Shortest warp, so cached scans still get the jump animation
+const MIN_WARP_MS = 2000;
+
+const TRAIT_LABELS: Partial<Record<keyof WalletTraits, string>> = {
+  hasSeeker: "Seeker Genesis",
+  blueChipCollections: "Blue chip",
+  nftCount: "NFT count",
+  totalAssetsCount: "Asset count",
+  txCategoryCounts: "Activity breakdown",
+  isMemeLord: "Meme Lord",
+  portfolioUsd: "Portfolio value",
+  stakedSol: "Staked SOL",
+  isStaker: "Staker",
+  defiProtocols: "DeFi positions",
+  isDeFiKing: "DeFi King",
+};
+
 const Index = () => {
   const [manualAddress, setManualAddress] = useState<string | undefined>();
   const [formAddress, setFormAddress] = useState("");
   const [isWarping, setIsWarping] = useState(false);
   const [viewState, setViewState] = useState<ViewState>("landing");
+  const [debugOpen, setDebugOpen] = useState(false);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey && event.shiftKey && event.key.toLowerCase() === "d") {
+        event.preventDefault();
+        setDebugOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
 
   const wallet = useWallet();
   const {
@@ -40,9 +114,25 @@ const Index = () => {
   } = wallet;
 
   const resolvedAddress = manualAddress || (connectedAddress ? connectedAddress.toBase58() : undefined) || undefined;
-  const walletData = useWalletData(resolvedAddress);
-  const { traits, score, address, isLoading, error: dataError } = walletData;
-  const displayAddress = useMemo(() => shortenAddress(address), [address]);
+  const { linkedAddresses, isLinking, linkConnectedWallet, unlinkWallet } = useLinkedIdentity();
+  // Linked wallets join the scan only while one of them is the connected wallet
+  const connectedIsLinked = Boolean(connectedAddress) && linkedAddresses.includes(connectedAddress.toBase58());
+  const network = useNetwork();
+  // A new provider per network, so switching networks rescans
+  const chainProvider = useMemo(() => getChainDataProvider(network), [network]);
+  const walletData = useWalletData(resolvedAddress, chainProvider, !manualAddress && connectedIsLinked ? linkedAddresses : []);
+  const { traits, score, scoreBreakdown, address, isLoading, error: dataError, dasStats, provider, unavailableTraits, cacheStatus, progress, truncatedSources, pricesAsOf, excludedAssets, wallets, history } = walletData;
+  const walletSources = useMemo(
+    () => (wallets.length > 1 ? wallets.map((w) => ({ address: w.address, weight: w.score })) : undefined),
+    [wallets]
+  );
+  const { connection } = useConnection();
+  const domainResolver = useDomainResolver();
+  const primaryDomain = usePrimaryDomain(resolvedAddress, domainResolver);
+  const displayAddress = useMemo(
+    () => (primaryDomain ? `${primaryDomain}.sol` : shortenAddress(address)),
+    [primaryDomain, address]
+  );
   const isExplorerMode = Boolean(manualAddress);
 
   // Unified State Machine for UI
@@ -66,25 +156,81 @@ const Index = () => {
     }
   }, [resolvedAddress, isWarping, isLoading, traits]);
 
+  const warpStartedAt = useRef(0);
+  const startWarp = useCallback(() => {
+    warpStartedAt.current = Date.now();
+    setIsWarping(true);
+  }, []);
+
+  // The warp lasts as long as the scan for the current address does
+  const scanSettled = address === resolvedAddress && (Boolean(progress?.done) || Boolean(dataError));
+  useEffect(() => {
+    if (!isWarping || !scanSettled) return;
+    const remaining = Math.max(0, MIN_WARP_MS - (Date.now() - warpStartedAt.current));
+    const timer = setTimeout(() => setIsWarping(false), remaining);
+    return () => clearTimeout(timer);
+  }, [isWarping, scanSettled]);
+
   // Handle Wallet Changes
   useEffect(() => {
-    if (isConnected && !manualAddress) {
-      setIsWarping(true);
-      setTimeout(() => setIsWarping(false), 2500);
-    }
-  }, [connectedAddress, isConnected, manualAddress]);
+    if (isConnected && !manualAddress) startWarp();
+  }, [connectedAddress, isConnected, manualAddress, startWarp]);
 
-  const handleManualExplore = () => {
-    const trimmed = formAddress.trim();
-    if (!trimmed) return;
-    setManualAddress(trimmed);
-    setIsWarping(true);
-    setTimeout(() => setIsWarping(false), 2500);
+  const [isResolving, setIsResolving] = useState(false);
+  // Set once the field is left or submitted, so a half-typed address is not flagged
+  const [inputTouched, setInputTouched] = useState(false);
+  const [targetError, setTargetError] = useState<string | null>(null);
+  const parsedInput = useMemo(() => parseAddressInput(formAddress), [formAddress]);
+
+  const handleFormAddressChange = (value: string) => {
+    setFormAddress(value);
+    setTargetError(null);
+    if (!value.trim()) setInputTouched(false);
   };
 
+  const inputMessage = useMemo((): InputMessage | null => {
+    if (!formAddress.trim()) return null;
+    if (targetError) return { tone: "error", text: targetError };
+    if (parsedInput.ok === false) return inputTouched ? { tone: "error", text: parsedInput.error } : null;
+    if (parsedInput.kind === "domain") return { tone: "hint", text: ".sol name · resolves on explore" };
+    return { tone: "hint", text: `${describeAddressSource(parsedInput.source)} · ${shortenAddress(parsedInput.address)}` };
+  }, [formAddress, inputTouched, parsedInput, targetError]);
+
+  const handleManualExplore = async () => {
+    if (!formAddress.trim()) return;
+    setInputTouched(true);
+    if (parsedInput.ok === false) return;
+
+    setIsResolving(true);
+    try {
+      const target = await resolveScanTarget(formAddress, { connection, resolver: domainResolver });
+      if (target.ok === false) {
+        setTargetError(target.error);
+        return;
+      }
+      scanLog.info(`Exploring ${target.address} from ${describeAddressSource(target.source)}`);
+      setManualAddress(target.address);
+      startWarp();
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleLinkWallet = useCallback(async () => {
+    try {
+      await linkConnectedWallet();
+      toast.success("Wallet linked", { description: "Switch to another wallet and link it to grow this identity." });
+    } catch (err) {
+      scanLog.error("Wallet link failed", err);
+      toast.error("Could not link wallet", {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }, [linkConnectedWallet]);
+
   const [mintState, setMintState] = useState<"idle" | "minting" | "success" | "error">("idle");
   const handleMint = useCallback(async () => {
-    if (!wallet || !wallet.publicKey || !traits) return;
+    if (!wallet || !wallet.publicKey || !traits || !scoreBreakdown) return;
     
     setMintState("minting");
     try {
@@ -92,23 +238,24 @@ const Index = () => {
         wallet,
         address: wallet.publicKey.toBase58(),
         traits,
-        score,
+        scoreBreakdown,
+        linkedWallets: wallets.length > 1 ? wallets.map((w) => w.address) : [],
       });
       
-      console.log("Mint success:", result);
+      mintLog.info(`Minted ${result.signature}`, result.metadata);
       setMintState("success");
       toast.success("Identity Secured!", {
         description: `Tx: ${result.signature.slice(0, 8)}...`,
       });
     } catch (err) {
-      console.error("Mint error:", err);
+      mintLog.error("Mint failed", err);
       setMintState("error");
       toast.error("Deployment failed", {
         description: err instanceof Error ? err.message : "Unknown error",
       });
       setTimeout(() => setMintState("idle"), 3000);
     }
-  }, [wallet, traits, score]);
+  }, [wallet, traits, scoreBreakdown, wallets]);
 
   const celestialStats = useMemo(() => {
     const defaultStats = [
@@ -134,7 +281,7 @@ const Index = () => {
 
   const achievements = useMemo(() => {
     if (!traits) return [];
-    const list = [];
+    const list: { id: string; label: string; key?: string }[] = [];
     
     // Special OGs
     if (traits.hasCombo) {
@@ -147,7 +294,10 @@ const Index = () => {
     if (traits.hyperactiveDegen) list.push({ id: "degen", label: "HYPERACTIVE" });
     if (traits.isMemeLord) list.push({ id: "meme_lord", label: "MEME LORD" });
     if (traits.isDeFiKing) list.push({ id: "defi_king", label: "DEFI KING" });
-    if (traits.isBlueChip) list.push({ id: "blue_chip", label: "BLUE CHIP" });
+    traits.blueChipCollections.forEach((collection) =>
+      list.push({ id: "blue_chip", key: `blue_chip_${collection.mint}`, label: collection.name.toUpperCase() })
+    );
+    if (traits.isStaker) list.push({ id: "staker", label: "STAKER" });
     
     if (traits.solTier === "whale") list.push({ id: "sol_whale", label: "SOL WHALE" });
     else if (traits.solTier === "dolphin") list.push({ id: "sol_dolphin", label: "SOL DOLPHIN" });
@@ -159,24 +309,44 @@ const Index = () => {
   const statCards = useMemo(() => {
     if (!traits) return [];
     return [
-      { label: "SOL", value: `${traits.solBalance.toFixed(2)}` },
+      {
+        label: "SOL",
+        value: `${traits.solBalance.toFixed(2)}`,
+        title: traits.stakedSol > 0
+          ? `+${traits.stakedSol.toFixed(2)} SOL staked across ${traits.stakeAccountCount} account(s) with ${traits.stakeValidators.length} validator(s)`
+          : undefined,
+      },
+      {
+        label: "NET",
+        value: traits.portfolioUsd === null ? "—" : formatUsd(traits.portfolioUsd),
+        title: traits.topHoldings.map((h) => `${h.symbol ?? shortenAddress(h.mint)} ${formatUsd(h.usd)}`).join(" · "),
+      },
       { label: "AGE", value: `${traits.walletAgeDays}d` },
-      { label: "TX/D", value: `${traits.avgTxPerDay30d.toFixed(1)}` },
+      {
+        label: "TX/D",
+        value: `${traits.activity.saturated ? "≥" : ""}${traits.avgTxPerDay30d.toFixed(1)}`,
+        title: `30-day average · ${traits.activity.txCount7d} / ${traits.activity.txCount30d} / ${traits.activity.txCount90d} tx in 7 / 30 / 90 days · ${traits.activity.activeDays30d} active days · longest streak ${traits.activity.longestStreakDays}d`,
+      },
+      { label: "LAST TX", value: traits.daysSinceLastTx === null ? "—" : `${traits.daysSinceLastTx}d` },
       { label: "NFTs", value: traits.nftCount.toString() },
     ];
   }, [traits]);
 
   return (
     <div className="identity-shell">
-      <SolarSystem traits={traits} walletAddress={address} isWarping={isWarping} />
+      <SolarSystem traits={traits} walletAddress={address} isWarping={isWarping} walletSources={walletSources} />
       <div className="identity-gradient" />
 
       {viewState !== "ready" ? (
         <LandingOverlay
           formAddress={formAddress}
-          setFormAddress={setFormAddress}
+          setFormAddress={handleFormAddressChange}
+          onBlurAddress={() => setInputTouched(true)}
+          inputMessage={inputMessage}
           onExplore={handleManualExplore}
           isScanning={viewState === "scanning"}
+          isResolving={isResolving}
+          progress={progress}
         />
       ) : (
         <>
@@ -198,8 +368,27 @@ const Index = () => {
             <div className="nav-right">
               <div className="debug-asset-pill hidden md:flex items-center gap-2 px-3 py-1 bg-white/5 border border-white/10 rounded-full mr-4 opacity-50">
                 <Database className="h-3 w-3" />
-                <span className="text-[10px] font-bold text-white/60 uppercase">Assets: {traits?.totalAssetsCount || 0}</span>
+                <span className="text-[10px] font-bold text-white/60 uppercase">
+                  Assets: {traits?.totalAssetsCount || 0}
+                  {dasStats && ` · ${dasStats.pagesFetched}p${dasStats.complete ? "" : "+"}`}
+                </span>
               </div>
+              <Link
+                to={`/compare?wallets=${encodeURIComponent(address)}`}
+                className="hidden md:flex items-center p-2 mr-2 rounded-full bg-white/5 border border-white/10 opacity-50 hover:opacity-100"
+                aria-label="Compare with another wallet"
+              >
+                <Columns2 className="h-3 w-3" />
+              </Link>
+              <NetworkSelector />
+              <button
+                type="button"
+                onClick={() => setDebugOpen(true)}
+                className="hidden md:flex items-center p-2 mr-2 rounded-full bg-white/5 border border-white/10 opacity-50 hover:opacity-100"
+                aria-label="Open debug console"
+              >
+                <Bug className="h-3 w-3" />
+              </button>
               <WalletMultiButton className="prism-wallet-btn compact" />
             </div>
           </nav>
@@ -251,7 +440,7 @@ const Index = () => {
                   </div>
                   <div className="ach-grid">
                     {achievements.filter(a => !['og_combo', 'seeker', 'preorder'].includes(a.id)).map(ach => (
-                      <div key={ach.id} className={`ach-tag ${ach.id}`}>
+                      <div key={ach.key ?? ach.id} className={`ach-tag ${ach.id}`}>
                         {ach.label}
                       </div>
                     ))}
@@ -259,22 +448,121 @@ const Index = () => {
                 </div>
               )}
 
+              {traits && traits.defiProtocols.length > 0 && (
+                <div className="achievements-hud">
+                  <div className="ach-label">
+                    <Layers className="h-3 w-3 mr-1" /> DEFI
+                  </div>
+                  <div className="ach-grid">
+                    {traits.defiProtocols.map((protocol) => (
+                      <div
+                        key={protocol.id}
+                        className="ach-tag defi_king"
+                        title={`${protocol.txCount} recent transaction(s) · ${protocol.positionCount} open position(s)`}
+                      >
+                        {protocol.name.toUpperCase()} · {protocol.txCount}
+                        {protocol.positionCount > 0 && ` · ${protocol.positionCount} POS`}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {scoreBreakdown && !isLoading && <ScoreBreakdownPanel breakdown={scoreBreakdown} />}
+
+              {history.length > 1 && (
+                <div className="achievements-hud">
+                  <div className="ach-label">
+                    <TrendingUp className="h-3 w-3 mr-1" /> ACTIVITY SCORE HISTORY
+                  </div>
+                  <ScoreTimeline history={history} />
+                  <span className="text-[10px] text-white/40">
+                    Activity only: age, transactions and on-chain behaviour. Balances and holdings carry no dates, so they are left out.
+                  </span>
+                </div>
+              )}
+
+              {isConnected && !isExplorerMode && (
+                <div className="achievements-hud">
+                  <div className="ach-label">
+                    <Link2 className="h-3 w-3 mr-1" /> LINKED WALLETS
+                  </div>
+                  <div className="ach-grid">
+                    {linkedAddresses.map((linked) => {
+                      const contribution = wallets.find((w) => w.address === linked);
+                      return (
+                        <div
+                          key={linked}
+                          className="ach-tag linked_wallet"
+                          title={contribution ? `Scores ${contribution.score} on its own` : "Proven owner"}
+                        >
+                          {shortenAddress(linked)}
+                          <button
+                            type="button"
+                            className="ml-1 opacity-60 hover:opacity-100"
+                            onClick={() => unlinkWallet(linked)}
+                            aria-label={`Unlink ${linked}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </div>
+                      );
+                    })}
+                    {connectedIsLinked ? (
+                      <span className="text-[10px] text-white/40 uppercase tracking-wider self-center">
+                        Switch wallets to link another
+                      </span>
+                    ) : (
+                      <button
+                        type="button"
+                        className="ach-tag linked_wallet"
+                        onClick={handleLinkWallet}
+                        disabled={isLinking}
+                      >
+                        {isLinking ? "SIGNING…" : "+ LINK THIS WALLET"}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div className="vitals-scroll-x">
                 {statCards.map((card) => (
-                  <div key={card.label} className="vital-card-mobile">
+                  <div key={card.label} className="vital-card-mobile" title={card.title}>
                     <p className="vital-label-mini">{card.label}</p>
                     <p className="vital-val-mini">{card.value}</p>
                   </div>
                 ))}
               </div>
 
+              {provider && (
+                <p className="scan-source-note text-[10px] text-white/40 uppercase tracking-wider">
+                  Source: {provider.label}
+                  {cacheStatus === "hit" && " · cached"}
+                  {unavailableTraits.length > 0 &&
+                    ` · Unavailable: ${unavailableTraits.map((t) => TRAIT_LABELS[t] ?? t).join(", ")}`}
+                  {truncatedSources.length > 0 &&
+                    ` · Partial data: ${truncatedSources.map((s) => TRUNCATION_LABELS[s]).join(", ")}`}
+                  {pricesAsOf !== null && ` · Prices as of ${new Date(pricesAsOf).toLocaleString()}`}
+                  {excludedAssets.length > 0 && (
+                    <>
+                      {" · "}
+                      <SpamReviewDialog excludedAssets={excludedAssets} />
+                    </>
+                  )}
+                </p>
+              )}
+
               <div className="hud-actions-mobile">
                 <Button
                   onClick={handleMint}
-                  disabled={mintState === "minting" || isLoading || !isConnected || isExplorerMode}
+                  disabled={mintState === "minting" || isLoading || !isConnected || isExplorerMode || !network.treasuryAddress}
+                  title={network.treasuryAddress ? undefined : `No treasury is configured for ${network.label}`}
                   className="mint-btn-mobile"
                 >
-                  {mintState === "idle" && <span>MINT IDENTITY</span>}
+                  {mintState === "idle" && (
+                    <span>{network.id === "mainnet-beta" ? "MINT IDENTITY" : `MINT ON ${network.label.toUpperCase()}`}</span>
+                  )}
                   {mintState === "minting" && <Loader2 className="h-4 w-4 animate-spin" />}
                   {mintState === "success" && <span>IDENTITY SECURED</span>}
                 </Button>
@@ -296,6 +584,8 @@ const Index = () => {
         </>
       )}
 
+      <DebugDrawer open={debugOpen} onOpenChange={setDebugOpen} assets={walletData.inputs?.assets ?? []} />
+
       {walletData?.error && (
         <div className="prism-error-toast">
           <AlertCircle className="h-4 w-4" />
@@ -306,24 +596,57 @@ const Index = () => {
   );
 };
 
-function LandingOverlay({ formAddress, setFormAddress, onExplore, isScanning }: { 
+function formatEta(ms: number | null) {
+  if (ms === null) return "Estimating time remaining";
+  if (ms < 1000) return "Almost there";
+  return `~${Math.ceil(ms / 1000)}s remaining`;
+}
+
+function ScanningOverlay({ progress }: { progress: ScanProgressState | null }) {
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the ETA moving between progress events
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const fraction = progress ? getScanProgressFraction(progress) : 0;
+
+  return (
+    <div className="warp-overlay scanning-overlay">
+      <div className="warp-content">
+        <div className="scanning-progress">
+          {progress ? (
+            <div className="scanning-bar determinate" style={{ width: `${Math.round(fraction * 100)}%` }} />
+          ) : (
+            <div className="scanning-bar"></div>
+          )}
+        </div>
+        <div className="warp-text">Scanning Solana Identity...</div>
+        <div className="warp-subtext">
+          {progress ? describeScanProgress(progress) : "Analyzing blockchain data"}
+        </div>
+        {progress && !progress.done && (
+          <div className="warp-subtext">{formatEta(estimateRemainingMs(progress, now))}</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function LandingOverlay({ formAddress, setFormAddress, onBlurAddress, inputMessage, onExplore, isScanning, isResolving, progress }: { 
   formAddress: string; 
   setFormAddress: (val: string) => void; 
+  onBlurAddress: () => void;
+  inputMessage: InputMessage | null;
   onExplore: () => void; 
   isScanning: boolean; 
+  isResolving: boolean;
+  progress: ScanProgressState | null;
 }) {
   if (isScanning) {
-    return (
-      <div className="warp-overlay scanning-overlay">
-        <div className="warp-content">
-          <div className="scanning-progress">
-            <div className="scanning-bar"></div>
-          </div>
-          <div className="warp-text">Scanning Solana Identity...</div>
-          <div className="warp-subtext">Analyzing blockchain data</div>
-        </div>
-      </div>
-    );
+    return <ScanningOverlay progress={progress} />;
   }
 
   return (
@@ -342,13 +665,24 @@ function LandingOverlay({ formAddress, setFormAddress, onExplore, isScanning }:
             <Input
               value={formAddress}
               onChange={(e) => setFormAddress(e.target.value)}
-              placeholder="Enter Address or .sol"
+              onBlur={onBlurAddress}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !isResolving) onExplore();
+              }}
+              placeholder="Address, .sol, solana: or explorer link"
               className="landing-input-v2"
+              aria-invalid={inputMessage?.tone === "error"}
+              aria-describedby={inputMessage ? "address-input-message" : undefined}
             />
-            <Button className="explore-btn-v2" onClick={onExplore} disabled={!formAddress.trim()}>
-              <Sparkles className="h-5 w-5" />
+            <Button className="explore-btn-v2" onClick={onExplore} disabled={!formAddress.trim() || isResolving}>
+              {isResolving ? <Loader2 className="h-5 w-5 animate-spin" /> : <Sparkles className="h-5 w-5" />}
             </Button>
           </div>
+          {inputMessage && (
+            <p id="address-input-message" className={`address-input-message ${inputMessage.tone}`}>
+              {inputMessage.text}
+            </p>
+          )}
           
           <div className="divider-v2">OR</div>
 
@@ -2,6 +2,16 @@
 
 interface ImportMetaEnv {
   readonly VITE_HELIUS_API_KEY: string;
+  readonly VITE_CHAIN_PROVIDER?: "helius" | "rpc" | "fixture";
+  readonly VITE_RPC_URL?: string;
+  readonly VITE_CHAIN_FIXTURE_URL?: string;
+  readonly VITE_PRICE_SOURCE?: "live" | "static";
+  readonly VITE_LOG_LEVEL?: "debug" | "info" | "warn" | "error" | "silent";
+  readonly VITE_SOLANA_NETWORK?: "mainnet-beta" | "devnet" | "localnet";
+  readonly VITE_DEVNET_RPC_URL?: string;
+  readonly VITE_DEVNET_TREASURY_ADDRESS?: string;
+  readonly VITE_LOCALNET_RPC_URL?: string;
+  readonly VITE_LOCALNET_TREASURY_ADDRESS?: string;
 }
 
 interface ImportMeta {